@@ -0,0 +1,139 @@
+// API client for auth endpoints
+import { Member } from "../types";
+import { chatApi } from "./chat";
+
+const api_url = process.env.NEXT_PUBLIC_API_BASE_URL ?? "http://localhost:3001";
+
+// Set NEXT_PUBLIC_AUTH_MODE=local to sign in without the auth service
+const isLocalAuth = process.env.NEXT_PUBLIC_AUTH_MODE === "local";
+
+const LOCAL_SESSION_KEY = "socmind.localSession";
+
+export interface LoginData {
+  email: string;
+  password: string;
+}
+
+interface AuthApi {
+  getSession: () => Promise<Member | null>;
+  login: (loginData: LoginData) => Promise<Member>;
+  logout: () => Promise<void>;
+}
+
+const remoteAuth: AuthApi = {
+  /**
+   * Get the member signed in with the current session cookie, if any
+   */
+  getSession: async (): Promise<Member | null> => {
+    const response = await fetch(`${api_url}/auth/session`, {
+      method: "GET",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (response.status === 401) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch session: ${response.statusText}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Sign in and start a session
+   */
+  login: async (loginData: LoginData): Promise<Member> => {
+    const response = await fetch(`${api_url}/auth/login`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(loginData),
+    });
+
+    if (response.status === 401) {
+      throw new Error("Invalid email or password");
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to sign in: ${response.statusText}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * End the current session
+   */
+  logout: async (): Promise<void> => {
+    const response = await fetch(`${api_url}/auth/logout`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to sign out: ${response.statusText}`);
+    }
+  },
+};
+
+// Development stand-in: accepts any password, signs in as the USER member
+// with a matching email (or a local one derived from the email) and keeps
+// the session in localStorage.
+const localAuth: AuthApi = {
+  getSession: async (): Promise<Member | null> => {
+    const stored = window.localStorage.getItem(LOCAL_SESSION_KEY);
+    return stored ? (JSON.parse(stored) as Member) : null;
+  },
+
+  login: async ({ email }: LoginData): Promise<Member> => {
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!normalizedEmail) {
+      throw new Error("Email is required");
+    }
+
+    let member: Member | undefined;
+    try {
+      const members = await chatApi.getAllMembers();
+      member = members.find(
+        (candidate) =>
+          candidate.type === "USER" &&
+          candidate.email?.toLowerCase() === normalizedEmail
+      );
+    } catch (err) {
+      console.warn("Local auth could not reach the members API:", err);
+    }
+
+    if (!member) {
+      const now = new Date();
+      member = {
+        id: normalizedEmail,
+        name: normalizedEmail.split("@")[0],
+        email: normalizedEmail,
+        systemMessage: null,
+        description: null,
+        createdAt: now,
+        updatedAt: now,
+        type: "USER",
+      };
+    }
+
+    window.localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(member));
+    return member;
+  },
+
+  logout: async (): Promise<void> => {
+    window.localStorage.removeItem(LOCAL_SESSION_KEY);
+  },
+};
+
+export const authApi: AuthApi = isLocalAuth ? localAuth : remoteAuth;
@@ -1,5 +1,11 @@
 // API client for chat endpoints
-import { Member, Chat } from "../types";
+import {
+  Member,
+  Chat,
+  ChatSearchResult,
+  MemberVersion,
+  Message,
+} from "../types";
 
 const api_url = process.env.NEXT_PUBLIC_API_BASE_URL ?? "http://localhost:3001";
 
@@ -11,6 +17,18 @@ interface CreateChatData {
   context?: string;
 }
 
+interface CreateMemberData {
+  id: string;
+  name: string;
+  email?: string | null;
+  systemMessage?: string | null;
+  description?: string | null;
+  type: string;
+  // Recorded with the first system message version
+  versionAuthor?: string | null;
+  versionNote?: string | null;
+}
+
 interface UpdateMemberData {
   memberId: string;
   name?: string;
@@ -18,6 +36,9 @@ interface UpdateMemberData {
   systemMessage?: string | null;
   description?: string | null;
   type?: string;
+  // Recorded with the system message version this update creates
+  versionAuthor?: string | null;
+  versionNote?: string | null;
 }
 
 interface UpdateChatData {
@@ -27,6 +48,24 @@ interface UpdateChatData {
   context?: string | null;
   conclusion?: string | null;
   creator?: string | null;
+  // Each added or removed member is announced with a SYSTEM message
+  addMemberIds?: string[];
+  removeMemberIds?: string[];
+}
+
+export interface UploadedFile {
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface SearchParams {
+  query: string;
+  senderId?: string;
+  // ISO dates bounding the message createdAt, inclusive
+  from?: string;
+  to?: string;
 }
 
 interface UpdatedChat {
@@ -38,6 +77,10 @@ interface UpdatedChat {
   creator: string | null;
   topic: string | null;
   conclusion: string | null;
+  memberIds: string[];
+  isPinned?: boolean;
+  isArchived?: boolean;
+  isConcluded?: boolean;
 }
 
 export const chatApi = {
@@ -80,6 +123,44 @@ export const chatApi = {
     return response.json();
   },
 
+  /**
+   * Create a new member
+   */
+  createMember: async (memberData: CreateMemberData): Promise<Member> => {
+    const response = await fetch(`${api_url}/chat/create-member`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(memberData),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to create member: ${response.statusText}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a member
+   */
+  deleteMember: async (memberId: string): Promise<void> => {
+    const response = await fetch(`${api_url}/chat/delete-member`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ memberId }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete member: ${response.statusText}`);
+    }
+  },
+
   /**
    * Update an existing member
    */
@@ -100,6 +181,30 @@ export const chatApi = {
     return response.json();
   },
 
+  /**
+   * Get the saved system message versions of a member, newest first
+   */
+  getMemberVersions: async (memberId: string): Promise<MemberVersion[]> => {
+    const response = await fetch(
+      `${api_url}/chat/members/${encodeURIComponent(memberId)}/versions`,
+      {
+        method: "GET",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch member versions: ${response.statusText}`
+      );
+    }
+
+    return response.json();
+  },
+
   /**
    * Update an existing chat
    */
@@ -119,4 +224,203 @@ export const chatApi = {
 
     return response.json();
   },
+
+  /**
+   * Pin a chat to the top of the list, or unpin it
+   */
+  pinChat: async (chatId: string, pinned: boolean): Promise<UpdatedChat> => {
+    const response = await fetch(`${api_url}/chat/pin-chat`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ chatId, pinned }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to pin chat: ${response.statusText}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Archive a chat, or restore it from the archive
+   */
+  archiveChat: async (
+    chatId: string,
+    archived: boolean
+  ): Promise<UpdatedChat> => {
+    const response = await fetch(`${api_url}/chat/archive-chat`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ chatId, archived }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to archive chat: ${response.statusText}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a chat and its messages
+   */
+  deleteChat: async (chatId: string): Promise<void> => {
+    const response = await fetch(`${api_url}/chat/delete-chat`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ chatId }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete chat: ${response.statusText}`);
+    }
+  },
+
+  /**
+   * Mark a chat as concluded with the given conclusion; agents stop replying
+   */
+  concludeChat: async (
+    chatId: string,
+    conclusion: string
+  ): Promise<UpdatedChat> => {
+    const response = await fetch(`${api_url}/chat/conclude-chat`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ chatId, conclusion }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to conclude chat: ${response.statusText}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Reopen a concluded chat; its conclusion is kept
+   */
+  reopenChat: async (chatId: string): Promise<UpdatedChat> => {
+    const response = await fetch(`${api_url}/chat/reopen-chat`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ chatId }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to reopen chat: ${response.statusText}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Ask an agent to draft a conclusion from the chat transcript
+   */
+  draftConclusion: async (
+    chatId: string,
+    memberId: string
+  ): Promise<string> => {
+    const response = await fetch(`${api_url}/chat/draft-conclusion`, {
+      method: "POST",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ chatId, memberId }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to draft conclusion: ${response.statusText}`);
+    }
+
+    const { conclusion } = await response.json();
+    return conclusion;
+  },
+
+  /**
+   * Upload a file to attach to a message
+   */
+  uploadFile: async (file: File): Promise<UploadedFile> => {
+    const body = new FormData();
+    body.append("file", file);
+
+    // The browser sets the multipart Content-Type with its boundary
+    const response = await fetch(`${api_url}/chat/upload`, {
+      method: "POST",
+      credentials: "include",
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to upload file: ${response.statusText}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Search chat names, topics, context and message text
+   */
+  search: async (
+    params: SearchParams,
+    signal?: AbortSignal
+  ): Promise<ChatSearchResult[]> => {
+    const query = new URLSearchParams({ q: params.query });
+    if (params.senderId) query.set("senderId", params.senderId);
+    if (params.from) query.set("from", params.from);
+    if (params.to) query.set("to", params.to);
+
+    const response = await fetch(`${api_url}/chat/search?${query}`, {
+      method: "GET",
+      credentials: "include",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to search chats: ${response.statusText}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get the complete message history of a chat, oldest first
+   */
+  getChatMessages: async (chatId: string): Promise<Message[]> => {
+    const response = await fetch(
+      `${api_url}/chat/${encodeURIComponent(chatId)}/messages`,
+      {
+        method: "GET",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch messages: ${response.statusText}`);
+    }
+
+    return response.json();
+  },
 };
@@ -1,47 +1,171 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
-import { Member } from "@/types";
+import { Member, MemberVersion } from "@/types";
 import { chatApi } from "@/api/chat";
-import { ArrowLeft, Save, Loader, Loader2 } from "lucide-react";
+import {
+  ArrowLeft,
+  Copy,
+  Loader,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
 import Link from "next/link";
+import { notifyMembersChanged } from "@/lib/memberEvents";
+import { useCurrentUser } from "@/context/SessionContext";
+import { useMemberDirectory } from "@/context/MembersContext";
+import { chatStore } from "@/store/chatStore";
+import { AgentVersionHistory } from "@/components/AgentVersionHistory";
+
+const MEMBER_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{1,63}$/;
+
+function validateMemberId(id: string, takenIds: string[]): string | null {
+  if (!id) {
+    return "Model ID is required";
+  }
+  if (!MEMBER_ID_PATTERN.test(id)) {
+    return "Model ID must be 2-64 characters of lowercase letters, digits, '.', '_' or '-', starting with a letter or digit";
+  }
+  if (takenIds.includes(id)) {
+    return `A member with ID "${id}" already exists`;
+  }
+  return null;
+}
 
 export default function AgentsPage() {
-  const [members, setMembers] = useState<Member[]>([]);
-  const [loading, setLoading] = useState(true);
+  const currentUser = useCurrentUser();
+  const {
+    members: allMembers,
+    isLoading: isLoadingMembers,
+    error: membersError,
+  } = useMemberDirectory();
+  // Background refreshes after a save shouldn't blank the list
+  const loading = isLoadingMembers && allMembers.length === 0;
+  // IDs are unique across all members, not just AI models
+  const takenIds = allMembers.map(member => member.id);
+  // Only show PROGRAM type members (AI models)
+  const members = allMembers.filter(member => member.type === "PROGRAM");
   const [selectedMember, setSelectedMember] = useState<Member | null>(null);
+  // Set while filling in a new agent (blank or duplicated from another)
+  const [isCreating, setIsCreating] = useState(false);
+  const [editedId, setEditedId] = useState("");
   const [editedName, setEditedName] = useState("");
   const [editedSystemMessage, setEditedSystemMessage] = useState("");
   const [editedDescription, setEditedDescription] = useState("");
+  const [versionNote, setVersionNote] = useState("");
   const [saving, setSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [deleting, setDeleting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchMembers();
-  }, []);
+    if (membersError) {
+      setError(membersError);
+    }
+  }, [membersError]);
+
+  const resetForm = (member: Member | null) => {
+    setEditedId(member?.id ?? "");
+    setEditedName(member?.name ?? "");
+    setEditedSystemMessage(member?.systemMessage || "");
+    setEditedDescription(member?.description || "");
+    setVersionNote("");
+    setSaveSuccess(false);
+    setConfirmingDelete(false);
+    setError(null);
+  };
+
+  const handleSelectMember = (member: Member) => {
+    setIsCreating(false);
+    setSelectedMember(member);
+    resetForm(member);
+  };
+
+  const handleNewMember = () => {
+    setIsCreating(true);
+    setSelectedMember(null);
+    resetForm(null);
+  };
+
+  const handleDuplicateMember = () => {
+    if (!selectedMember) return;
+
+    let copyId = `${selectedMember.id}-copy`;
+    for (let n = 2; takenIds.includes(copyId); n++) {
+      copyId = `${selectedMember.id}-copy-${n}`;
+    }
+
+    setIsCreating(true);
+    resetForm(selectedMember);
+    setEditedId(copyId);
+    setEditedName(`${selectedMember.name} (copy)`);
+    setSelectedMember(null);
+  };
+
+  const handleCreateMember = async () => {
+    const id = editedId.trim();
+    const idError = validateMemberId(id, takenIds);
+    if (idError) {
+      setError(idError);
+      return;
+    }
+    if (!editedName.trim()) {
+      setError("Display name is required");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
 
-  const fetchMembers = async () => {
-    setLoading(true);
     try {
-      const membersList = await chatApi.getAllMembers();
-      // Filter to only show PROGRAM type members (AI models)
-      const programMembers = membersList.filter(member => member.type === "PROGRAM");
-      setMembers(programMembers);
+      const createdMember = await chatApi.createMember({
+        id,
+        name: editedName.trim(),
+        systemMessage: editedSystemMessage,
+        description: editedDescription,
+        type: "PROGRAM",
+        versionAuthor: currentUser.id,
+        versionNote: versionNote || null
+      });
+
+      chatStore.upsertMember(createdMember);
+      setIsCreating(false);
+      setSelectedMember(createdMember);
+      resetForm(createdMember);
+      setSaveSuccess(true);
+      notifyMembersChanged();
+
+      setTimeout(() => {
+        setSaveSuccess(false);
+      }, 3000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch members");
+      setError(err instanceof Error ? err.message : "Failed to create member");
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
-  const handleSelectMember = (member: Member) => {
-    setSelectedMember(member);
-    setEditedName(member.name);
-    setEditedSystemMessage(member.systemMessage || "");
-    setEditedDescription(member.description || "");
-    setSaveSuccess(false);
+  const handleDeleteMember = async () => {
+    if (!selectedMember) return;
+
+    setDeleting(true);
     setError(null);
+
+    try {
+      await chatApi.deleteMember(selectedMember.id);
+      chatStore.removeMember(selectedMember.id);
+      setSelectedMember(null);
+      resetForm(null);
+      notifyMembersChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete member");
+      setConfirmingDelete(false);
+    } finally {
+      setDeleting(false);
+    }
   };
 
   const handleSaveMember = async () => {
@@ -56,16 +180,18 @@ export default function AgentsPage() {
         memberId: selectedMember.id,
         name: editedName,
         systemMessage: editedSystemMessage,
-        description: editedDescription
+        description: editedDescription,
+        versionAuthor: currentUser.id,
+        versionNote: versionNote || null
       });
       
       // Update the member in the list
-      setMembers(prev => prev.map(m => 
-        m.id === updatedMember.id ? updatedMember : m
-      ));
+      chatStore.upsertMember(updatedMember);
       
       setSelectedMember(updatedMember);
+      setVersionNote("");
       setSaveSuccess(true);
+      notifyMembersChanged();
       
       // Reset success message after 3 seconds
       setTimeout(() => {
@@ -78,6 +204,22 @@ export default function AgentsPage() {
     }
   };
 
+  const handleRestoreVersion = async (version: MemberVersion) => {
+    if (!selectedMember) return;
+
+    const restoredMember = await chatApi.updateMember({
+      memberId: selectedMember.id,
+      systemMessage: version.systemMessage,
+      versionAuthor: currentUser.id,
+      versionNote: `Restored version from ${new Date(version.createdAt).toLocaleString()}`
+    });
+
+    chatStore.upsertMember(restoredMember);
+    setSelectedMember(restoredMember);
+    setEditedSystemMessage(restoredMember.systemMessage || "");
+    notifyMembersChanged();
+  };
+
   return (
     <main className="min-h-screen bg-gray-100">
       <div className="max-w-7xl mx-auto px-4 py-8">
@@ -96,7 +238,16 @@ export default function AgentsPage() {
           <div className="flex gap-6">
             {/* Models List */}
             <div className="w-1/3 bg-white rounded-lg shadow-md p-4 h-[calc(100vh-180px)] overflow-y-auto">
-              <h2 className="text-lg font-semibold mb-4 text-[#1b2e5c]">Available Agents</h2>
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold text-[#1b2e5c]">Available Agents</h2>
+                <button
+                  onClick={handleNewMember}
+                  className="px-3 py-1.5 flex items-center text-sm bg-[#1b2e5c] text-white rounded-md hover:bg-blue-600 transition-colors"
+                >
+                  <Plus size={16} className="mr-1" />
+                  New agent
+                </button>
+              </div>
               <div className="space-y-2">
                 {members.map(member => (
                   <div 
@@ -117,11 +268,58 @@ export default function AgentsPage() {
             
             {/* Edit Panel */}
             <div className="w-2/3 bg-white rounded-lg shadow-md p-6">
-              {selectedMember ? (
+              {selectedMember || isCreating ? (
                 <div>
-                  <h2 className="text-xl font-semibold mb-6 text-[#1b2e5c]">
-                    Edit Model: {selectedMember.name}
-                  </h2>
+                  <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-xl font-semibold text-[#1b2e5c]">
+                      {selectedMember
+                        ? `Edit Model: ${selectedMember.name}`
+                        : "New Agent"}
+                    </h2>
+                    {selectedMember && (
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={handleDuplicateMember}
+                          className="px-3 py-1.5 flex items-center text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                          <Copy size={14} className="mr-1" />
+                          Duplicate agent
+                        </button>
+                        {confirmingDelete ? (
+                          <>
+                            <button
+                              onClick={handleDeleteMember}
+                              disabled={deleting}
+                              className="px-3 py-1.5 flex items-center text-sm text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                            >
+                              {deleting ? (
+                                <Loader2 className="animate-spin mr-1 h-4 w-4" />
+                              ) : (
+                                <Trash2 size={14} className="mr-1" />
+                              )}
+                              Confirm delete
+                            </button>
+                            {!deleting && (
+                              <button
+                                onClick={() => setConfirmingDelete(false)}
+                                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+                              >
+                                Cancel
+                              </button>
+                            )}
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => setConfirmingDelete(true)}
+                            className="px-3 py-1.5 flex items-center text-sm text-red-600 border border-red-300 rounded-md hover:bg-red-50"
+                          >
+                            <Trash2 size={14} className="mr-1" />
+                            Delete agent
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
                   
                   {error && (
                     <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">
@@ -140,12 +338,27 @@ export default function AgentsPage() {
                       <label className="block text-sm font-medium text-gray-700 mb-1">
                         Model ID
                       </label>
-                      <input
-                        type="text"
-                        value={selectedMember.id}
-                        readOnly
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
-                      />
+                      {selectedMember ? (
+                        <input
+                          type="text"
+                          value={selectedMember.id}
+                          readOnly
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
+                        />
+                      ) : (
+                        <>
+                          <input
+                            type="text"
+                            value={editedId}
+                            onChange={(e) => setEditedId(e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                            placeholder="e.g. claude-skeptic"
+                          />
+                          <p className="mt-1 text-sm text-gray-500">
+                            Lowercase letters, digits, &apos;.&apos;, &apos;_&apos; and &apos;-&apos;. Cannot be changed later.
+                          </p>
+                        </>
+                      )}
                     </div>
                     
                     <div>
@@ -175,6 +388,19 @@ export default function AgentsPage() {
                         This message defines how the AI model behaves in conversations.
                       </p>
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Version Note
+                      </label>
+                      <input
+                        type="text"
+                        value={versionNote}
+                        onChange={(e) => setVersionNote(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                        placeholder="Optional: why is the system message changing?"
+                      />
+                    </div>
                     
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -191,7 +417,7 @@ export default function AgentsPage() {
                     
                     <div className="flex justify-end">
                       <button
-                        onClick={handleSaveMember}
+                        onClick={isCreating ? handleCreateMember : handleSaveMember}
                         disabled={saving}
                         className={`px-4 py-2 rounded-md flex items-center text-white ${
                           saving ? 'bg-gray-400' : 'bg-[#1b2e5c] hover:bg-blue-600'
@@ -205,11 +431,19 @@ export default function AgentsPage() {
                         ) : (
                           <>
                             <Save size={16} className="mr-2" />
-                            Save Changes
+                            {isCreating ? "Create Agent" : "Save Changes"}
                           </>
                         )}
                       </button>
                     </div>
+
+                    {selectedMember && (
+                      <AgentVersionHistory
+                        memberId={selectedMember.id}
+                        refreshKey={String(selectedMember.updatedAt)}
+                        onRestore={handleRestoreVersion}
+                      />
+                    )}
                   </div>
                 </div>
               ) : (
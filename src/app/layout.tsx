@@ -4,6 +4,9 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import { Analytics } from '@vercel/analytics/next';
 import { SpeedInsights } from "@vercel/speed-insights/next";
+import { SessionProvider } from "@/context/SessionContext";
+import { SessionGate } from "@/components/SessionGate";
+import { MembersProvider } from "@/context/MembersContext";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -20,7 +23,11 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={`${inter.className} bg-gray-100`}>
-        {children}
+        <SessionProvider>
+          <SessionGate>
+            <MembersProvider>{children}</MembersProvider>
+          </SessionGate>
+        </SessionProvider>
         <Analytics />
         <SpeedInsights />
       </body>
@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, LogIn } from "lucide-react";
+import { Orbitron } from "next/font/google";
+import { useSession } from "@/context/SessionContext";
+
+const orbitron = Orbitron({ subsets: ["latin"] });
+
+export default function LoginPage() {
+  const { user, login } = useSession();
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      router.replace("/");
+    }
+  }, [user, router]);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSigningIn(true);
+    setError(null);
+
+    try {
+      await login({ email, password });
+      router.replace("/");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign in");
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gray-100 flex items-center justify-center">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white rounded-lg shadow-md p-6 space-y-4"
+      >
+        <h1
+          className={`${orbitron.className} text-2xl tracking-tight text-[#1b2e5c] text-center`}
+        >
+          SocietyOfMind
+        </h1>
+
+        {error && (
+          <div className="p-3 bg-red-100 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Email
+          </label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Password
+          </label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={signingIn}
+          className={`w-full px-4 py-2 rounded-md flex items-center justify-center text-white ${
+            signingIn ? "bg-gray-400" : "bg-[#1b2e5c] hover:bg-blue-600"
+          }`}
+        >
+          {signingIn ? (
+            <>
+              <Loader2 className="animate-spin -ml-1 mr-2 h-4 w-4" />
+              Signing in...
+            </>
+          ) : (
+            <>
+              <LogIn size={16} className="mr-2" />
+              Sign in
+            </>
+          )}
+        </button>
+      </form>
+    </main>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader } from "lucide-react";
+import { useSession } from "@/context/SessionContext";
+import { disconnectSocket } from "@/hooks/useSocket";
+
+export default function LogoutPage() {
+  const { logout } = useSession();
+  const [signedOut, setSignedOut] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const signOut = async () => {
+      try {
+        // Drop the socket so the next session connects with its own identity
+        disconnectSocket();
+        await logout();
+        setSignedOut(true);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to sign out");
+      }
+    };
+
+    signOut();
+  }, [logout]);
+
+  return (
+    <main className="min-h-screen bg-gray-100 flex items-center justify-center">
+      <div className="w-full max-w-sm bg-white rounded-lg shadow-md p-6 text-center text-[#1b2e5c]">
+        {error ? (
+          <div className="p-3 bg-red-100 text-red-700 rounded-md text-sm">
+            {error}
+          </div>
+        ) : signedOut ? (
+          <>
+            <p className="mb-4">You have been signed out.</p>
+            <Link
+              href="/login"
+              className="px-4 py-2 rounded-md text-white bg-[#1b2e5c] hover:bg-blue-600"
+            >
+              Sign in again
+            </Link>
+          </>
+        ) : (
+          <Loader className="h-8 w-8 animate-spin mx-auto" />
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,172 +1,389 @@
 // src/app/page.tsx
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { Sidebar } from "../components/Sidebar";
 import { ChatArea } from "../components/ChatArea";
-import { Chat, Message } from "@/types";
+import { MessageActionHandlers } from "../components/MessageBubble";
+import { ProtocolBanner } from "../components/ProtocolBanner";
+import { Chat, Message, MessageActionAck } from "@/types";
 import { useSocket } from "@/hooks/useSocket";
+import { useMessageStream } from "@/hooks/useMessageStream";
+import { useMemberActivity } from "@/hooks/useMemberActivity";
+import { useOrchestration } from "@/hooks/useOrchestration";
+import { isServerMessage } from "@/lib/messages";
+import { onServerEvent, request, RequestPayload } from "@/lib/protocol";
+import {
+  chatStore,
+  getChatStoreState,
+  ownEntry,
+  useChatStore,
+} from "@/store/chatStore";
+import { selectChatHistory, selectSelectedChat } from "@/store/selectors";
+
+const SEND_ACK_TIMEOUT_MS = 10000;
+const SYNC_ACK_TIMEOUT_MS = 15000;
+const HISTORY_ACK_TIMEOUT_MS = 15000;
+const HISTORY_PAGE_SIZE = 50;
+const MESSAGE_ACTION_ACK_TIMEOUT_MS = 10000;
+// Regenerating waits for the agent to write a whole new answer
+const REGENERATE_ACK_TIMEOUT_MS = 120000;
 
 export default function Home() {
-  const { socket, refreshConnection } = useSocket();
-  const [chats, setChats] = useState<Chat[]>([]);
-  const [currentMessages, setCurrentMessages] = useState<Message[]>([]);
-  const [selectedChat, setSelectedChat] = useState<Chat | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Centralized function to add chats
-  const addChatIfNotExists = (newChat: Chat) => {
-    setChats((prevChats) => {
-      const exists = prevChats.some((chat) => chat.id === newChat.id);
-      if (exists) {
-        return prevChats;
-      } else {
-        return [...prevChats, newChat];
-      }
-    });
-  };
+  const { socket, isConnected, protocolIssue, dismissProtocolIssue } =
+    useSocket();
+  const selectedChat = useChatStore(selectSelectedChat);
+  const {
+    messages: currentMessages,
+    hasMore: hasMoreHistory,
+    isLoading: isLoadingHistory,
+  } = useChatStore(selectChatHistory(selectedChat?.id ?? ""));
+  // Message to scroll to and highlight once it is loaded (from search)
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const { streamingMessages, completeStream } = useMessageStream(socket);
+  const { activities, activeChatIds } = useMemberActivity(socket);
+  const orchestration = useOrchestration(
+    socket,
+    selectedChat?.id ?? null,
+    isConnected
+  );
 
-  // Effect to handle component mount and refresh connection
   useEffect(() => {
-    // When the component mounts, refresh the connection to ensure we get fresh data
-    refreshConnection();
-  }, []);
+    if (!socket) return;
+
+    const handleInitialData = (receivedChats: Chat[]) => {
+      console.log(receivedChats);
+      chatStore.setChats(receivedChats);
+    };
+    const handleChatDeleted = ({ chatId }: { chatId: string }) => {
+      chatStore.removeChat(chatId);
+    };
+
+    const unsubscribers = [
+      onServerEvent(socket, "initialData", handleInitialData),
+      onServerEvent(socket, "newChat", chatStore.addChat),
+      // Chats changed by any client (e.g. members added or removed)
+      onServerEvent(socket, "chatUpdated", chatStore.updateChat),
+      onServerEvent(socket, "chatDeleted", handleChatDeleted),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [socket]);
 
   useEffect(() => {
-    if (socket) {
-      // Listen for initial chats
-      socket.on("initialData", (receivedChats: Chat[]) => {
-        setChats(receivedChats);
-        setIsLoading(false);
-        console.log(receivedChats);
-        // if (receivedChats.length > 0) {
-        //   setSelectedChat(receivedChats[0]);
-        //   socket.emit("chatHistory", receivedChats[0].id);
-        // }
-      });
-
-      // Listen for new chats
-      socket.on("newChat", (newChat: Chat) => {
-        addChatIfNotExists(newChat);
-      });
-
-      // Listen for chat history
-      socket.on(
-        "chatHistory",
-        (chatData: { chatId: string; messages: Message[] }) => {
-          setCurrentMessages(chatData.messages);
-        }
+    if (!socket) return;
+
+    // Messages for every chat are kept, so cached histories stay current
+    const handleNewMessage = (newMessage: Message) => {
+      console.log("Received new message:", newMessage);
+      // The final message replaces any partial copy that was streaming in
+      completeStream(newMessage.id);
+      chatStore.addMessage(newMessage);
+    };
+
+    const unsubscribers = [
+      onServerEvent(socket, "newMessage", handleNewMessage),
+      // Edits, reactions and regenerations from any client
+      onServerEvent(socket, "messageUpdated", chatStore.updateMessage),
+      onServerEvent(socket, "messageDeleted", chatStore.removeMessage),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [socket, completeStream]);
+
+  // Whenever the socket (re)connects, ask only for what we missed while it
+  // was down and fold it into the chat list and the cached conversations.
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+
+    const resync = async () => {
+      const lastSeen = Object.fromEntries(
+        Object.entries(getChatStoreState().lastSeenByChat).map(
+          ([chatId, message]) => [chatId, message.id]
+        )
       );
-    }
 
-    return () => {
-      if (socket) {
-        socket.off("initialData");
-        socket.off("newChat");
-        socket.off("chatHistory");
+      try {
+        const { chats: syncedChats, messages: missed } = await request(
+          socket,
+          "sync",
+          { lastSeen },
+          SYNC_ACK_TIMEOUT_MS
+        );
+
+        missed.forEach((message) => completeStream(message.id));
+        chatStore.mergeChats(syncedChats);
+        chatStore.mergeMessages(missed);
+      } catch (error) {
+        console.error("Failed to resync after reconnect:", error);
       }
     };
-  }, [socket]);
 
-  const selectedChatRef = useRef<Chat | null>(null);
+    resync();
+  }, [socket, isConnected, completeStream]);
 
-  useEffect(() => {
-    selectedChatRef.current = selectedChat;
-    console.log("Selected chat updated:", selectedChat);
-  }, [selectedChat]);
+  // History arrives newest page first; passing `before` fetches the page of
+  // messages preceding that message id, while `through` extends the first
+  // page back far enough to include that message (used to jump to a search
+  // hit).
+  const loadHistoryPage = useCallback(
+    async (
+      chatId: string,
+      { before, through }: { before?: string; through?: string } = {}
+    ) => {
+      if (!socket) return;
 
-  useEffect(() => {
-    if (socket) {
-      const handleNewMessage = (newMessage: Message) => {
-        console.log("Received new message:", newMessage);
-        setChats((prevChats) =>
-          prevChats.map((chat) =>
-            chat.id === newMessage.chatId
-              ? { ...chat, latestMessage: newMessage }
-              : chat
-          )
+      chatStore.setHistoryLoading(chatId, true);
+      try {
+        const page = await request(
+          socket,
+          "chatHistory",
+          { chatId, before, through, limit: HISTORY_PAGE_SIZE },
+          HISTORY_ACK_TIMEOUT_MS
         );
+
+        // Pages for a chat the user has since left still fill its cache
+        chatStore.receiveHistoryPage(page.chatId, page.messages, {
+          hasMore: page.hasMore,
+          isOlder: !!before,
+        });
+        // Give up on jumping to a message the server no longer returns
         if (
-          selectedChatRef.current &&
-          selectedChatRef.current.id === newMessage.chatId
+          through &&
+          getChatStoreState().selectedChatId === page.chatId &&
+          !page.messages.some((message) => message.id === through)
         ) {
-          console.log("Updating current messages with:", newMessage);
-          setCurrentMessages((prevMessages) => [...prevMessages, newMessage]);
-        } else {
-          console.log(
-            "Message not for current chat. Selected:",
-            selectedChatRef.current?.id,
-            "Message chat:",
-            newMessage.chatId
-          );
+          setFocusMessageId(null);
         }
-      };
+      } catch (error) {
+        console.error("Failed to load chat history:", error);
+      } finally {
+        chatStore.setHistoryLoading(chatId, false);
+      }
+    },
+    [socket]
+  );
 
-      socket.on("newMessage", handleNewMessage);
+  const loadOlderMessages = useCallback(() => {
+    const chatId = getChatStoreState().selectedChatId;
+    const oldest = currentMessages.find(isServerMessage);
+    if (!chatId || !oldest || !hasMoreHistory || isLoadingHistory) return;
+    loadHistoryPage(chatId, { before: oldest.id });
+  }, [currentMessages, hasMoreHistory, isLoadingHistory, loadHistoryPage]);
 
-      return () => {
-        socket.off("newMessage", handleNewMessage);
-      };
-    }
-  }, [socket]);
+  const handleChatSelect = (chat: Chat, focusMessageId?: string) => {
+    setFocusMessageId(focusMessageId ?? null);
+    const cached = ownEntry(getChatStoreState().historiesByChat, chat.id);
+    chatStore.selectChat(chat.id);
 
-  const handleChatSelect = (chat: Chat) => {
-    setSelectedChat(chat);
-    setCurrentMessages([]); // Clear messages immediately
-    if (socket) {
-      socket.emit("chatHistory", chat.id);
-    }
-  };
-
-  const handleChatUpdate = (updatedChat: Partial<Chat>) => {
-    if (selectedChat && updatedChat.id === selectedChat.id) {
-      // Update the selected chat
-      setSelectedChat({ ...selectedChat, ...updatedChat });
-      
-      // Also update the chat in the chats array for the sidebar
-      setChats((prevChats) =>
-        prevChats.map((chat) =>
-          chat.id === updatedChat.id ? { ...chat, ...updatedChat } : chat
-        )
-      );
+    // A cached history is kept current by live events; only fetch when the
+    // chat is new to us or the message to jump to isn't loaded yet
+    const hasFocusMessage =
+      !focusMessageId ||
+      !!cached?.messages.some((message) => message.id === focusMessageId);
+    if (!cached || !hasFocusMessage) {
+      loadHistoryPage(chat.id, { through: focusMessageId });
     }
   };
 
   const addNewChat = (newChat: Chat) => {
-    addChatIfNotExists(newChat);
+    chatStore.addChat(newChat);
     handleChatSelect(newChat);
   };
 
+  const setMessageStatus = useCallback(
+    (message: Message, status: Message["status"]) => {
+      chatStore.setMessageStatus(message.chatId, message.id, status);
+    },
+    []
+  );
+
+  const deliverMessage = useCallback(
+    async (message: Message) => {
+      if (!socket || !message.clientId) {
+        setMessageStatus(message, "failed");
+        return;
+      }
+
+      try {
+        const ack = await request(
+          socket,
+          "sendMessage",
+          {
+            chatId: message.chatId,
+            clientId: message.clientId,
+            content: message.content.text,
+            parts: message.content.parts ?? null,
+            mentions: message.mentions ?? [],
+            onlyMentionedReply: message.onlyMentionedReply ?? false,
+            replyToId: message.replyToId ?? null,
+          },
+          SEND_ACK_TIMEOUT_MS
+        );
+
+        if (!ack.ok) {
+          throw new Error(ack.error);
+        }
+
+        // Swap the optimistic copy for the server's canonical message. The
+        // user may have opened another chat meanwhile, so it is filed under
+        // the chat it was sent to rather than the open one.
+        const canonical: Message = {
+          ...ack.message,
+          chatId: message.chatId,
+          clientId: message.clientId,
+          status: "sent",
+        };
+        chatStore.addMessage(canonical);
+      } catch (error) {
+        console.error("Failed to send message:", error);
+        setMessageStatus(message, "failed");
+      }
+    },
+    [socket, setMessageStatus]
+  );
+
   const addNewMessage = (chatId: string, newMessage: Message) => {
-    setCurrentMessages((prevMessages) => [...prevMessages, newMessage]);
-    if (socket) {
-      socket.emit("sendMessage", {
-        chatId: chatId,
-        content: newMessage.content.text,
-      });
-      setChats((prevChats) =>
-        prevChats.map((chat) =>
-          chat.id === chatId ? { ...chat, latestMessage: newMessage } : chat
-        )
-      );
-    }
+    const pendingMessage: Message = {
+      ...newMessage,
+      chatId,
+      status: "pending",
+    };
+    chatStore.addMessage(pendingMessage);
+    deliverMessage(pendingMessage);
   };
 
+  const handleRetryMessage = useCallback(
+    (message: Message) => {
+      setMessageStatus(message, "pending");
+      deliverMessage(message);
+    },
+    [deliverMessage, setMessageStatus]
+  );
+
+  const handleDiscardMessage = useCallback((message: Message) => {
+    chatStore.removeMessage({ chatId: message.chatId, messageId: message.id });
+  }, []);
+
+  const loadThread = useCallback(
+    async (chatId: string, messageId: string) => {
+      if (!socket) {
+        throw new Error("Not connected");
+      }
+      const thread = await request(
+        socket,
+        "threadReplies",
+        { chatId, messageId },
+        HISTORY_ACK_TIMEOUT_MS
+      );
+      return thread.replies;
+    },
+    [socket]
+  );
+
+  // Message actions go through the socket so every open client is updated
+  // by the resulting messageUpdated/messageDeleted broadcast
+  const messageActions = useMemo<MessageActionHandlers>(() => {
+    const requestUpdate = async <
+      E extends
+        | "editMessage"
+        | "regenerateMessage"
+        | "selectAlternative"
+        | "toggleReaction",
+    >(
+      event: E,
+      payload: RequestPayload<E>,
+      timeoutMs = MESSAGE_ACTION_ACK_TIMEOUT_MS
+    ) => {
+      if (!socket) {
+        throw new Error("Not connected");
+      }
+      const ack: MessageActionAck = await request(
+        socket,
+        event,
+        payload,
+        timeoutMs
+      );
+      if (!ack.ok) {
+        throw new Error(ack.error);
+      }
+      chatStore.updateMessage(ack.message);
+    };
+
+    return {
+      onEdit: (message, text) =>
+        requestUpdate("editMessage", {
+          chatId: message.chatId,
+          messageId: message.id,
+          content: text,
+        }),
+      onDelete: async (message) => {
+        if (!socket) {
+          throw new Error("Not connected");
+        }
+        const ack = await request(
+          socket,
+          "deleteMessage",
+          { chatId: message.chatId, messageId: message.id },
+          MESSAGE_ACTION_ACK_TIMEOUT_MS
+        );
+        if (!ack.ok) {
+          throw new Error(ack.error);
+        }
+        chatStore.removeMessage({
+          chatId: message.chatId,
+          messageId: message.id,
+        });
+      },
+      onRegenerate: (message) =>
+        requestUpdate(
+          "regenerateMessage",
+          { chatId: message.chatId, messageId: message.id },
+          REGENERATE_ACK_TIMEOUT_MS
+        ),
+      onSelectAlternative: (message, index) =>
+        requestUpdate("selectAlternative", {
+          chatId: message.chatId,
+          messageId: message.id,
+          index,
+        }),
+      onToggleReaction: (message, emoji) =>
+        requestUpdate("toggleReaction", {
+          chatId: message.chatId,
+          messageId: message.id,
+          emoji,
+        }),
+    };
+  }, [socket]);
+
   return (
     <main className="flex h-screen bg-gray-100">
       <Sidebar
-        chats={chats}
-        selectedChat={selectedChat}
         onChatSelect={handleChatSelect}
         onNewChat={addNewChat}
-        isLoading={isLoading}
+        activeChatIds={activeChatIds}
       />
       {selectedChat ? (
         <ChatArea
           selectedChat={selectedChat}
           messages={currentMessages}
+          streamingMessages={Object.values(streamingMessages).filter(
+            (message) => message.chatId === selectedChat.id
+          )}
+          activities={Object.values(activities).filter(
+            (activity) => activity.chatId === selectedChat.id
+          )}
+          hasMoreHistory={hasMoreHistory}
+          isLoadingHistory={isLoadingHistory}
+          onLoadOlderMessages={loadOlderMessages}
+          focusMessageId={focusMessageId}
+          onFocusHandled={() => setFocusMessageId(null)}
           onSendMessage={addNewMessage}
-          onChatUpdate={handleChatUpdate}
+          onRetryMessage={handleRetryMessage}
+          onDiscardMessage={handleDiscardMessage}
+          messageActions={messageActions}
+          onLoadThread={loadThread}
+          orchestration={orchestration}
         />
       ) : (
         <div className="flex-1 flex items-center justify-center text-center text-[#1b2e5c]">
@@ -177,6 +394,12 @@ export default function Home() {
           Watch artificial intelligences interact with one another.
         </div>
       )}
+      {protocolIssue && (
+        <ProtocolBanner
+          issue={protocolIssue}
+          onDismiss={dismissProtocolIssue}
+        />
+      )}
     </main>
   );
 }
@@ -0,0 +1,66 @@
+// src/components/ActivityIndicators.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { MemberActivity } from "@/types";
+import { MemberAvatar } from "./MemberAvatar";
+import { MemberName } from "./MemberName";
+
+interface ActivityIndicatorsProps {
+  activities: MemberActivity[];
+}
+
+function formatElapsed(startedAt: string, now: number): string {
+  const seconds = Math.max(
+    0,
+    Math.floor((now - new Date(startedAt).getTime()) / 1000)
+  );
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export function ActivityIndicators({
+  activities,
+}: ActivityIndicatorsProps): JSX.Element {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second so the elapsed times count up
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="px-4 pb-2 bg-gray-100">
+      <div className="max-w-3xl mx-auto flex flex-col space-y-1">
+        {activities.map((activity) => (
+          <div
+            key={activity.memberId}
+            className="flex items-center text-xs text-gray-600"
+          >
+            <MemberAvatar memberId={activity.memberId} size="sm" />
+            <div className="flex items-center bg-gray-200 rounded-2xl px-3 py-1.5 mx-2">
+              {[0, 150, 300].map((delay) => (
+                <span
+                  key={delay}
+                  className="w-1.5 h-1.5 mx-0.5 rounded-full bg-gray-500 animate-bounce"
+                  style={{ animationDelay: `${delay}ms` }}
+                />
+              ))}
+            </div>
+            <span>
+              <MemberName
+                memberId={activity.memberId}
+                className="font-medium"
+              />{" "}
+              is {activity.activity}
+            </span>
+            <span className="ml-1 text-gray-400 flex-shrink-0">
+              · {formatElapsed(activity.startedAt, now)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+// src/components/AgentVersionHistory.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { MemberVersion } from "@/types";
+import { chatApi } from "@/api/chat";
+import { diffLines, DiffRow } from "@/lib/diff";
+
+interface AgentVersionHistoryProps {
+  memberId: string;
+  // Changes whenever the member is saved so the list is re-fetched
+  refreshKey: string | number;
+  onRestore: (version: MemberVersion) => Promise<void>;
+}
+
+const rowClasses: Record<DiffRow["type"], { left: string; right: string }> = {
+  same: { left: "", right: "" },
+  added: { left: "bg-gray-50", right: "bg-green-50" },
+  removed: { left: "bg-red-50", right: "bg-gray-50" },
+  changed: { left: "bg-red-50", right: "bg-green-50" },
+};
+
+function versionLabel(version: MemberVersion): string {
+  return `${new Date(version.createdAt).toLocaleString()}${
+    version.author ? ` · ${version.author}` : ""
+  }`;
+}
+
+export function AgentVersionHistory({
+  memberId,
+  refreshKey,
+  onRestore,
+}: AgentVersionHistoryProps): JSX.Element {
+  const [versions, setVersions] = useState<MemberVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const versionList = await chatApi.getMemberVersions(memberId);
+      setVersions(versionList);
+      // Default to comparing the previous version with the latest one
+      setCompareId(versionList[0]?.id ?? null);
+      setBaseId(versionList[1]?.id ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch versions");
+    } finally {
+      setLoading(false);
+    }
+  }, [memberId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions, refreshKey]);
+
+  const baseVersion = versions.find((version) => version.id === baseId);
+  const compareVersion = versions.find((version) => version.id === compareId);
+
+  const rows = useMemo(
+    () =>
+      baseVersion && compareVersion
+        ? diffLines(
+            baseVersion.systemMessage ?? "",
+            compareVersion.systemMessage ?? ""
+          )
+        : [],
+    [baseVersion, compareVersion]
+  );
+
+  const handleRestore = async (version: MemberVersion) => {
+    setRestoringId(version.id);
+    setError(null);
+    try {
+      await onRestore(version);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to restore version"
+      );
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="border-t pt-6">
+      <h3 className="text-lg font-semibold mb-3 text-[#1b2e5c] flex items-center">
+        <History size={18} className="mr-2" />
+        System Message History
+      </h3>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center p-4">
+          <Loader2 className="animate-spin text-gray-500" size={24} />
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved versions yet.</p>
+      ) : (
+        <>
+          <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+            {versions.map((version, index) => (
+              <div key={version.id} className="flex items-center p-2 text-sm">
+                <input
+                  type="radio"
+                  name="base-version"
+                  checked={baseId === version.id}
+                  onChange={() => setBaseId(version.id)}
+                  className="mr-2"
+                  title="Compare from this version"
+                />
+                <input
+                  type="radio"
+                  name="compare-version"
+                  checked={compareId === version.id}
+                  onChange={() => setCompareId(version.id)}
+                  className="mr-3"
+                  title="Compare to this version"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">
+                    {versionLabel(version)}
+                    {index === 0 && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs bg-gray-200 rounded">
+                        current
+                      </span>
+                    )}
+                  </div>
+                  {version.note && (
+                    <div className="text-gray-500 truncate">{version.note}</div>
+                  )}
+                </div>
+                {index > 0 && (
+                  <button
+                    onClick={() => handleRestore(version)}
+                    disabled={restoringId !== null}
+                    className="ml-2 px-2 py-1 flex items-center text-xs border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {restoringId === version.id ? (
+                      <Loader2 className="animate-spin mr-1 h-3 w-3" />
+                    ) : (
+                      <RotateCcw size={12} className="mr-1" />
+                    )}
+                    Restore
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {baseVersion && compareVersion && (
+            <div className="mt-4 border rounded-md overflow-hidden text-xs font-mono">
+              <div className="grid grid-cols-2 bg-gray-100 font-sans text-sm font-medium">
+                <div className="p-2 border-r">{versionLabel(baseVersion)}</div>
+                <div className="p-2">{versionLabel(compareVersion)}</div>
+              </div>
+              <div className="max-h-96 overflow-y-auto">
+                {rows.map((row, index) => (
+                  <div key={index} className="grid grid-cols-2">
+                    <div
+                      className={`flex border-r ${rowClasses[row.type].left}`}
+                    >
+                      <span className="w-8 flex-shrink-0 text-right pr-2 text-gray-400 select-none">
+                        {row.left?.number}
+                      </span>
+                      <span className="whitespace-pre-wrap break-words min-w-0">
+                        {row.left?.text}
+                      </span>
+                    </div>
+                    <div className={`flex ${rowClasses[row.type].right}`}>
+                      <span className="w-8 flex-shrink-0 text-right pr-2 text-gray-400 select-none">
+                        {row.right?.number}
+                      </span>
+                      <span className="whitespace-pre-wrap break-words min-w-0">
+                        {row.right?.text}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+// src/components/AttachmentPreviews.tsx
+"use client";
+
+import { AlertCircle, FileText, Loader2, RotateCw, X } from "lucide-react";
+import { PendingAttachment } from "@/hooks/useAttachments";
+import { formatFileSize, MAX_ATTACHMENT_BYTES } from "@/lib/attachments";
+
+interface AttachmentPreviewsProps {
+  attachments: PendingAttachment[];
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+export function AttachmentPreviews({
+  attachments,
+  onRetry,
+  onRemove,
+}: AttachmentPreviewsProps): JSX.Element {
+  return (
+    <div className="flex flex-wrap gap-2 mb-2 ml-4">
+      {attachments.map((attachment) => (
+        <div
+          key={attachment.id}
+          className={`relative flex items-center bg-white border rounded-lg text-xs ${
+            attachment.status === "failed"
+              ? "border-red-300"
+              : "border-gray-200"
+          } ${attachment.previewUrl ? "p-1" : "py-2 pl-2 pr-6 max-w-[14rem]"}`}
+          title={attachment.error ?? attachment.file.name}
+        >
+          {attachment.previewUrl ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={attachment.previewUrl}
+              alt={attachment.file.name}
+              className="h-16 w-16 object-cover rounded"
+            />
+          ) : (
+            <>
+              <FileText
+                size={16}
+                className="mr-2 flex-shrink-0 text-gray-500"
+              />
+              <div className="min-w-0">
+                <div className="truncate font-medium">
+                  {attachment.file.name}
+                </div>
+                <div className="text-gray-500">
+                  {formatFileSize(attachment.file.size)}
+                </div>
+              </div>
+            </>
+          )}
+
+          {attachment.status === "uploading" && (
+            <div className="absolute inset-0 flex items-center justify-center bg-white/60 rounded-lg">
+              <Loader2 size={16} className="animate-spin text-gray-600" />
+            </div>
+          )}
+          {attachment.status === "failed" &&
+            (attachment.file.size > MAX_ATTACHMENT_BYTES ? (
+              <div className="absolute inset-0 flex items-center justify-center bg-white/70 rounded-lg text-red-600">
+                <AlertCircle size={16} />
+              </div>
+            ) : (
+              <button
+                onClick={() => onRetry(attachment.id)}
+                className="absolute inset-0 flex items-center justify-center bg-white/70 rounded-lg text-red-600"
+                title="Upload failed. Retry"
+              >
+                <RotateCw size={16} />
+              </button>
+            ))}
+
+          <button
+            onClick={() => onRemove(attachment.id)}
+            className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-gray-700 text-white hover:bg-gray-900"
+            title="Remove attachment"
+          >
+            <X size={10} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
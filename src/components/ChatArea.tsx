@@ -1,27 +1,83 @@
 // src/components/ChatArea.tsx
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import { Send, Settings } from "lucide-react";
-import { Chat, Message } from "@/types";
-import ReactMarkdown from "react-markdown";
-import remarkMath from "remark-math";
-import rehypeKatex from "rehype-katex";
-import "katex/dist/katex.min.css";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  CornerUpLeft,
+  Flag,
+  Loader2,
+  Lock,
+  Paperclip,
+  Plus,
+  Send,
+  Settings,
+  X,
+} from "lucide-react";
+import {
+  Chat,
+  MemberActivity,
+  Message,
+  MessagePart,
+  StreamingMessage,
+} from "@/types";
 import { chatApi } from "@/api/chat";
+import { useCurrentUser } from "@/context/SessionContext";
+import { useMembers } from "@/hooks/useMembers";
+import { useMemberDirectory } from "@/context/MembersContext";
+import { OrchestrationControls } from "@/hooks/useOrchestration";
+import { useAttachments } from "@/hooks/useAttachments";
+import { chatStore } from "@/store/chatStore";
+import { extractMentions, findMentionQuery } from "@/lib/mentions";
+import { MessageList } from "./MessageList";
+import { MessageActionHandlers } from "./MessageBubble";
+import { MemberPicker } from "./MemberPicker";
+import { ExportMenu } from "./ExportMenu";
+import { ConcludeDialog } from "./ConcludeDialog";
+import { ConclusionCard } from "./ConclusionCard";
+import { MentionCandidate, MentionSuggestions } from "./MentionSuggestions";
+import { ThreadPanel } from "./ThreadPanel";
+import { AttachmentPreviews } from "./AttachmentPreviews";
+import { ActivityIndicators } from "./ActivityIndicators";
+import { MemberAvatar } from "./MemberAvatar";
+import { OrchestrationBar, describeOrchestration } from "./OrchestrationBar";
+
+const MAX_MENTION_SUGGESTIONS = 8;
 
 interface ChatAreaProps {
   selectedChat: Chat;
   messages: Message[];
+  streamingMessages?: StreamingMessage[];
+  // Members currently typing or thinking in this chat
+  activities?: MemberActivity[];
+  hasMoreHistory?: boolean;
+  isLoadingHistory?: boolean;
+  onLoadOlderMessages?: () => void;
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
   onSendMessage: (chatId: string, message: Message) => void;
-  onChatUpdate?: (updatedChat: Partial<Chat>) => void;
+  onRetryMessage?: (message: Message) => void;
+  onDiscardMessage?: (message: Message) => void;
+  messageActions?: MessageActionHandlers;
+  onLoadThread?: (chatId: string, messageId: string) => Promise<Message[]>;
+  orchestration?: OrchestrationControls;
 }
 
 export function ChatArea({
   selectedChat,
   messages,
+  streamingMessages = [],
+  activities = [],
+  hasMoreHistory = false,
+  isLoadingHistory = false,
+  onLoadOlderMessages,
+  focusMessageId = null,
+  onFocusHandled,
   onSendMessage,
-  onChatUpdate,
+  onRetryMessage,
+  onDiscardMessage,
+  messageActions,
+  onLoadThread,
+  orchestration,
 }: ChatAreaProps): JSX.Element {
   const [inputMessage, setInputMessage] = useState("");
   const [showChatSettings, setShowChatSettings] = useState(false);
@@ -29,13 +85,69 @@ export function ChatArea({
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [editedChatName, setEditedChatName] = useState<string | null>(null);
   const [editedChatTopic, setEditedChatTopic] = useState<string | null>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [isAddingMembers, setIsAddingMembers] = useState(false);
+  const [membersToAdd, setMembersToAdd] = useState<string[]>([]);
+  const [isUpdatingMembers, setIsUpdatingMembers] = useState(false);
+  const [showConcludeDialog, setShowConcludeDialog] = useState(false);
+  const [isReopening, setIsReopening] = useState(false);
+  const [reopenError, setReopenError] = useState<string | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<{
+    query: string;
+    start: number;
+  } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [onlyMentionedReply, setOnlyMentionedReply] = useState(false);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [threadRoot, setThreadRoot] = useState<Message | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const { members, isLoading: isMembersLoading } = useMembers();
+  const { memberName } = useMemberDirectory();
+  const {
+    attachments,
+    uploadedParts,
+    isUploading,
+    hasFailedUploads,
+    addFiles,
+    retry: retryAttachment,
+    remove: removeAttachment,
+    clear: clearAttachments,
+  } = useAttachments();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const userId = "user";
-
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const currentUser = useCurrentUser();
+  const userId = currentUser.id;
+  const agents = members.filter(
+    (member) =>
+      member.type === "PROGRAM" && selectedChat.memberIds.includes(member.id)
+  );
+  const mentionCandidates: MentionCandidate[] = selectedChat.memberIds
+    .filter((memberId) => memberId !== userId)
+    .map((memberId) => ({
+      id: memberId,
+      name: memberName(memberId),
+    }));
+  const mentionSuggestions = mentionQuery
+    ? mentionCandidates
+        .filter(
+          ({ id, name }) =>
+            id.toLowerCase().includes(mentionQuery.query.toLowerCase()) ||
+            name.toLowerCase().includes(mentionQuery.query.toLowerCase())
+        )
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+  const hasMentions =
+    extractMentions(inputMessage, selectedChat.memberIds).length > 0;
+  // Keep the thread's root in step with edits and reactions to it
+  const liveThreadRoot = threadRoot
+    ? (messages.find((message) => message.id === threadRoot.id) ?? threadRoot)
+    : null;
+  const orchestrationStatus = describeOrchestration(
+    orchestration?.state ?? null
+  );
+  const canSend =
+    (!!inputMessage.trim() || uploadedParts.length > 0) &&
+    !isUploading &&
+    !hasFailedUploads;
 
   useEffect(() => {
     if (textareaRef.current) {
@@ -60,29 +172,178 @@ export function ChatArea({
     }
   }, [showChatSettings, selectedChat]);
 
+  useEffect(() => {
+    setIsAddingMembers(false);
+    setMembersToAdd([]);
+  }, [showChatSettings, selectedChat.id]);
+
+  useEffect(() => {
+    setReplyTo(null);
+    setThreadRoot(null);
+    clearAttachments();
+  }, [selectedChat.id, clearAttachments]);
+
+  const visibleMessages = useMemo(() => {
+    // Skip the first message if it matches the chat context
+    const first = messages[0];
+    const history =
+      !hasMoreHistory &&
+      first &&
+      selectedChat.context &&
+      first.content.text === selectedChat.context
+        ? messages.slice(1)
+        : messages;
+    const streaming = streamingMessages.filter(
+      (streaming) => !messages.some((message) => message.id === streaming.id)
+    );
+    return [...history, ...streaming];
+  }, [messages, streamingMessages, hasMoreHistory, selectedChat.context]);
+
   const getChatDisplayName = (chat: Chat): string => {
     const filteredMembers = chat.memberIds.filter(
-      (memberId) => !memberId.toLowerCase().match(/^(user)$/)
+      (memberId) => memberId !== userId
     );
-    return `To: ${filteredMembers.join(", ")}`;
+    return `To: ${filteredMembers.map(memberName).join(", ")}`;
+  };
+
+  const handleReplyToMessage = useCallback((message: Message) => {
+    setReplyTo(message);
+    textareaRef.current?.focus();
+  }, []);
+
+  const handleOpenThread = useCallback((message: Message) => {
+    setThreadRoot(message);
+  }, []);
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const { value, selectionStart } = event.target;
+    setInputMessage(value);
+    setMentionQuery(findMentionQuery(value, selectionStart));
+    setMentionIndex(0);
+  };
+
+  // Replace the "@query" being typed with the chosen member's id; the text
+  // carries ids, and the sent message shows the member's name in its place
+  const insertMention = (candidate: MentionCandidate) => {
+    if (!mentionQuery) return;
+
+    const caret = mentionQuery.start + mentionQuery.query.length + 1;
+    const mention = `@${candidate.id} `;
+    setInputMessage(
+      inputMessage.slice(0, mentionQuery.start) +
+        mention +
+        inputMessage.slice(caret)
+    );
+    setMentionQuery(null);
+
+    const nextCaret = mentionQuery.start + mention.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleFileInputChange = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    addFiles(Array.from(event.target.files ?? []));
+    // Let the same file be picked again after removing it
+    event.target.value = "";
+  };
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(event.clipboardData.files);
+    if (files.length > 0) {
+      event.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const hasDraggedFiles = (event: React.DragEvent) =>
+    event.dataTransfer.types.includes("Files");
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (selectedChat.isConcluded || !hasDraggedFiles(event)) return;
+    event.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Ignore leaving one child for another inside the drop area
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      return;
+    }
+    setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    setIsDraggingFiles(false);
+    if (selectedChat.isConcluded || !hasDraggedFiles(event)) return;
+    event.preventDefault();
+    addFiles(Array.from(event.dataTransfer.files));
+    textareaRef.current?.focus();
   };
 
   const handleSendMessage = () => {
-    if (inputMessage.trim()) {
+    if (canSend) {
+      const text = inputMessage.trim();
+      const mentions = extractMentions(text, selectedChat.memberIds);
+      // Text-only messages keep the plain shape older clients understand
+      const parts: MessagePart[] | undefined =
+        uploadedParts.length > 0
+          ? [
+              ...(text ? [{ type: "text" as const, text }] : []),
+              ...uploadedParts,
+            ]
+          : undefined;
+      // The client id doubles as the temporary message id until the server
+      // acknowledges the send and returns its canonical copy
+      const clientId = crypto.randomUUID();
       const newMessage: Message = {
-        id: `msg_${Date.now()}`,
+        id: clientId,
+        clientId,
         type: "MEMBER",
         senderId: userId,
         chatId: selectedChat.id,
-        content: { text: inputMessage.trim() },
+        content: { text, ...(parts && { parts }) },
         createdAt: new Date().toISOString(),
+        ...(mentions.length > 0 && {
+          mentions,
+          onlyMentionedReply,
+        }),
+        ...(replyTo && { replyToId: replyTo.id }),
       };
       onSendMessage(selectedChat.id, newMessage);
       setInputMessage("");
+      clearAttachments();
+      setReplyTo(null);
+      setMentionQuery(null);
     }
   };
 
   const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentionSuggestions.length > 0) {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setMentionIndex(
+          (prev) =>
+            (prev + step + mentionSuggestions.length) %
+            mentionSuggestions.length
+        );
+        return;
+      }
+      if (event.key === "Enter" || event.key === "Tab") {
+        event.preventDefault();
+        insertMention(mentionSuggestions[mentionIndex]);
+        return;
+      }
+      if (event.key === "Escape") {
+        event.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
     if (event.key === "Enter" && !event.shiftKey) {
       event.preventDefault();
       handleSendMessage();
@@ -99,14 +360,11 @@ export function ChatArea({
         topic: editedChatTopic,
       });
 
-      // Call the callback to update parent state if provided
-      if (onChatUpdate) {
-        onChatUpdate({
-          ...selectedChat,
-          name: updatedChat.name,
-          topic: updatedChat.topic,
-        });
-      }
+      chatStore.updateChat({
+        id: selectedChat.id,
+        name: updatedChat.name,
+        topic: updatedChat.topic,
+      });
 
       setShowChatSettings(false);
     } catch (error) {
@@ -117,266 +375,467 @@ export function ChatArea({
     }
   };
 
-  return (
-    <div className="flex-1 flex flex-col">
-      <div className="h-16 bg-gray-100 p-4">
-        <div className="max-w-3xl mx-auto flex items-center justify-between">
-          <h2 className="font-semibold">{getChatDisplayName(selectedChat)}</h2>
-          <button
-            onClick={() => setShowChatSettings(true)}
-            className="w-8 h-8 rounded-full bg-gray-200 text-gray-700 flex items-center justify-center hover:bg-gray-300 transition-colors"
-            title="Chat Settings"
-          >
-            <Settings size={16} />
-          </button>
-        </div>
-      </div>
-
-      {showChatSettings && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-2xl">
-            <h3 className="text-lg font-semibold mb-4">Chat Settings</h3>
-
-            {errorMessage && (
-              <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
-                {errorMessage}
-              </div>
-            )}
-
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Chat ID
-                </label>
-                <input
-                  type="text"
-                  value={selectedChat.id}
-                  readOnly
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
-                />
-              </div>
+  const handleReopenChat = async () => {
+    setIsReopening(true);
+    setReopenError(null);
+    try {
+      await chatApi.reopenChat(selectedChat.id);
+      chatStore.updateChat({ id: selectedChat.id, isConcluded: false });
+    } catch (error) {
+      console.error("Failed to reopen chat:", error);
+      setReopenError("Failed to reopen chat.");
+    } finally {
+      setIsReopening(false);
+    }
+  };
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Chat Name
-                </label>
-                <input
-                  type="text"
-                  value={editedChatName || ""}
-                  onChange={(e) => setEditedChatName(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                />
-              </div>
+  const handleChatConcluded = (updatedChat: Partial<Chat>) => {
+    setShowConcludeDialog(false);
+    chatStore.updateChat(updatedChat);
+  };
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Context
-                </label>
-                <textarea
-                  value={selectedChat.context || ""}
-                  readOnly
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
-                  rows={selectedChat.context ? 5 : 1}
-                />
-              </div>
+  const handleMemberToAddToggle = (memberId: string) => {
+    setMembersToAdd((prev) =>
+      prev.includes(memberId)
+        ? prev.filter((id) => id !== memberId)
+        : [...prev, memberId]
+    );
+  };
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Topic
-                </label>
-                <textarea
-                  value={editedChatTopic || ""}
-                  onChange={(e) => setEditedChatTopic(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                  rows={1}
-                />
-              </div>
+  // Member changes are applied immediately; the server announces each one
+  // in the chat with a SYSTEM message
+  const updateChatMembers = async (
+    addMemberIds: string[],
+    removeMemberIds: string[]
+  ) => {
+    try {
+      setIsUpdatingMembers(true);
+      setErrorMessage(null);
+      const updatedChat = await chatApi.updateChat({
+        chatId: selectedChat.id,
+        addMemberIds,
+        removeMemberIds,
+      });
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Created At
-                </label>
-                <input
-                  type="text"
-                  value={new Date(selectedChat.createdAt).toLocaleString()}
-                  readOnly
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
-                />
-              </div>
+      chatStore.updateChat({
+        id: selectedChat.id,
+        memberIds: updatedChat.memberIds,
+      });
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Updated At
-                </label>
-                <input
-                  type="text"
-                  value={new Date(selectedChat.updatedAt).toLocaleString()}
-                  readOnly
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
-                />
-              </div>
+      setIsAddingMembers(false);
+      setMembersToAdd([]);
+    } catch (error) {
+      console.error("Failed to update chat members:", error);
+      setErrorMessage("Failed to update chat members.");
+    } finally {
+      setIsUpdatingMembers(false);
+    }
+  };
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Members
-                </label>
-                <div className="flex flex-wrap gap-2">
-                  {selectedChat.memberIds.map((memberId) => (
-                    <span
-                      key={memberId}
-                      className="px-2 py-1 bg-gray-200 rounded-full text-sm"
-                    >
-                      {memberId}
-                    </span>
-                  ))}
-                </div>
-              </div>
+  return (
+    <div className="flex-1 flex min-w-0">
+      <div
+        className="relative flex-1 flex flex-col min-w-0"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {isDraggingFiles && (
+          <div className="absolute inset-0 z-40 m-2 flex items-center justify-center rounded-lg border-2 border-dashed border-[#1b2e5c] bg-white/80 text-[#1b2e5c] font-medium pointer-events-none">
+            <Paperclip size={18} className="mr-2" />
+            Drop files to attach
+          </div>
+        )}
+        <div className="h-16 bg-gray-100 p-4">
+          <div className="max-w-3xl mx-auto flex items-center justify-between">
+            <div className="flex items-center min-w-0">
+              <h2 className="font-semibold truncate">
+                {getChatDisplayName(selectedChat)}
+              </h2>
+              {orchestrationStatus && !selectedChat.isConcluded && (
+                <span
+                  className={`ml-2 px-2 py-0.5 rounded-full text-xs flex-shrink-0 ${
+                    orchestrationStatus.isActive
+                      ? "bg-green-100 text-green-800"
+                      : "bg-yellow-100 text-yellow-800"
+                  }`}
+                  title="Agent orchestration"
+                >
+                  {orchestrationStatus.label}
+                </span>
+              )}
             </div>
-
-            <div className="mt-6 flex justify-end space-x-3">
+            <div className="flex items-center space-x-2">
+              <ExportMenu chat={selectedChat} members={members} />
+              {!selectedChat.isConcluded && (
+                <button
+                  onClick={() => setShowConcludeDialog(true)}
+                  className="w-8 h-8 rounded-full bg-gray-200 text-gray-700 flex items-center justify-center hover:bg-gray-300 transition-colors"
+                  title="Conclude Chat"
+                >
+                  <Flag size={16} />
+                </button>
+              )}
               <button
-                onClick={() => setShowChatSettings(false)}
-                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium"
+                onClick={() => setShowChatSettings(true)}
+                className="w-8 h-8 rounded-full bg-gray-200 text-gray-700 flex items-center justify-center hover:bg-gray-300 transition-colors"
+                title="Chat Settings"
               >
-                Cancel
-              </button>
-              <button
-                onClick={handleSaveChat}
-                disabled={isUpdating}
-                className="px-4 py-2 bg-[#1b2e5c] text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
-              >
-                {isUpdating ? "Saving..." : "Save"}
+                <Settings size={16} />
               </button>
             </div>
           </div>
         </div>
-      )}
-      <div className="flex-1 overflow-y-auto p-4 bg-gray-100 relative">
-        <div className="max-w-3xl mx-auto">
-          {messages.map((message, index) => {
-            // Skip the first message if it matches the chat context
-            if (index === 0 && 
-                selectedChat.context && 
-                message.content.text === selectedChat.context) {
-              return null;
-            }
-            
-            return message.type === "SYSTEM" ? (
-              <SystemMessage key={message.id} message={message} />
-            ) : (
-              <MessageBubble
-                key={message.id}
-                message={message}
-                isUser={message.senderId === userId}
-              />
-            );
-          })}
-          <div ref={messagesEndRef} />
-        </div>
-      </div>
-      <div className="bg-gray-100 p-4">
-        <div className="max-w-3xl mx-auto">
-          <div className="flex items-center">
-            <textarea
-              ref={textareaRef}
-              value={inputMessage}
-              onChange={(e) => setInputMessage(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Kick off the conversation..."
-              className="flex-1 border rounded-2xl py-2 px-4 mr-2 max-h-32 min-h-[2.5rem] resize-none overflow-y-auto break-words"
-              rows={1}
-              style={{ width: "calc(100% - 3rem)" }}
-            />
-            <button
-              onClick={handleSendMessage}
-              className={`bg-[#1b2e5c] text-white rounded-full p-2 h-10 w-10 flex items-center justify-center flex-shrink-0 transition-colors ${
-                inputMessage.trim() ? "hover:bg-blue-600" : ""
-              }`}
-            >
-              <Send size={16} />
-            </button>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
 
-interface MessageBubbleProps {
-  message: Message;
-  isUser: boolean;
-}
+        {showConcludeDialog && (
+          <ConcludeDialog
+            chat={selectedChat}
+            members={members}
+            onClose={() => setShowConcludeDialog(false)}
+            onConcluded={handleChatConcluded}
+          />
+        )}
 
-function MessageBubble({ message, isUser }: MessageBubbleProps): JSX.Element {
-  const bubbleClass = isUser
-    ? "bg-[#1b2e5c] text-white"
-    : "bg-gray-200 text-black";
+        {selectedChat.isConcluded && selectedChat.conclusion && (
+          <ConclusionCard conclusion={selectedChat.conclusion} />
+        )}
 
-  return (
-    <div className={`flex mb-4 ${isUser ? "justify-end" : "justify-start"}`}>
-      <div
-        className={`flex items-end max-w-[70%] ${
-          isUser ? "flex-row-reverse" : "flex-row"
-        }`}
-      >
-        {!isUser && message.senderId && (
-          <div className="w-8 h-8 rounded-full bg-gray-300 flex-shrink-0 flex items-center justify-center text-xs font-semibold">
-            {message.senderId.slice(0, 2).toUpperCase()}
+        {orchestration && !selectedChat.isConcluded && (
+          <OrchestrationBar orchestration={orchestration} agents={agents} />
+        )}
+
+        {showChatSettings && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+              <h3 className="text-lg font-semibold mb-4">Chat Settings</h3>
+
+              {errorMessage && (
+                <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+                  {errorMessage}
+                </div>
+              )}
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Chat ID
+                  </label>
+                  <input
+                    type="text"
+                    value={selectedChat.id}
+                    readOnly
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Chat Name
+                  </label>
+                  <input
+                    type="text"
+                    value={editedChatName || ""}
+                    onChange={(e) => setEditedChatName(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Context
+                  </label>
+                  <textarea
+                    value={selectedChat.context || ""}
+                    readOnly
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
+                    rows={selectedChat.context ? 5 : 1}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Topic
+                  </label>
+                  <textarea
+                    value={editedChatTopic || ""}
+                    onChange={(e) => setEditedChatTopic(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    rows={1}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Created At
+                  </label>
+                  <input
+                    type="text"
+                    value={new Date(selectedChat.createdAt).toLocaleString()}
+                    readOnly
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Updated At
+                  </label>
+                  <input
+                    type="text"
+                    value={new Date(selectedChat.updatedAt).toLocaleString()}
+                    readOnly
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Members
+                  </label>
+                  <div className="flex flex-wrap gap-2 items-center">
+                    {selectedChat.memberIds.map((memberId) => (
+                      <span
+                        key={memberId}
+                        className="px-2 py-1 bg-gray-200 rounded-full text-sm flex items-center"
+                        title={memberId}
+                      >
+                        <MemberAvatar memberId={memberId} size="sm" />
+                        <span className="ml-1">{memberName(memberId)}</span>
+                        {memberId !== userId && (
+                          <button
+                            onClick={() => updateChatMembers([], [memberId])}
+                            disabled={isUpdatingMembers}
+                            className="ml-1 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                            title={`Remove ${memberName(memberId)}`}
+                          >
+                            <X size={12} />
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                    {!isAddingMembers && (
+                      <button
+                        onClick={() => setIsAddingMembers(true)}
+                        disabled={isUpdatingMembers}
+                        className="px-2 py-1 border border-dashed border-gray-400 rounded-full text-sm flex items-center text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <Plus size={12} className="mr-1" />
+                        Add
+                      </button>
+                    )}
+                    {isUpdatingMembers && (
+                      <Loader2
+                        className="animate-spin text-gray-500"
+                        size={16}
+                      />
+                    )}
+                  </div>
+                  {isAddingMembers && (
+                    <div className="mt-2 border rounded-md">
+                      <div className="max-h-48 overflow-y-auto">
+                        <MemberPicker
+                          members={members}
+                          selectedIds={membersToAdd}
+                          onToggle={handleMemberToAddToggle}
+                          isLoading={isMembersLoading}
+                          excludeIds={selectedChat.memberIds}
+                        />
+                      </div>
+                      <div className="p-2 border-t flex justify-end space-x-2">
+                        <button
+                          onClick={() => {
+                            setIsAddingMembers(false);
+                            setMembersToAdd([]);
+                          }}
+                          className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => updateChatMembers(membersToAdd, [])}
+                          disabled={
+                            isUpdatingMembers || membersToAdd.length === 0
+                          }
+                          className="px-3 py-1 bg-[#1b2e5c] text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Add to chat
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="mt-6 flex justify-end space-x-3">
+                <button
+                  onClick={() => setShowChatSettings(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveChat}
+                  disabled={isUpdating}
+                  className="px-4 py-2 bg-[#1b2e5c] text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isUpdating ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </div>
           </div>
         )}
-        <div
-          className={`flex flex-col ${
-            isUser ? "items-end" : "items-start ml-2"
-          }`}
-        >
-          {!isUser && message.senderId && (
-            <span className="text-xs text-gray-500 mb-1">
-              {message.senderId}
-            </span>
-          )}
-          <div
-            className={`py-1 px-3 rounded-2xl ${bubbleClass} break-words min-h-8 flex items-center whitespace-pre-wrap max-w-full overflow-x-auto`}
-          >
-            <ReactMarkdown
-              className={`prose prose-sm ${
-                isUser ? "prose-invert !text-white" : ""
-              } [&_.katex-display]:!overflow-x-auto [&_.katex-display]:!overflow-y-hidden [&_.katex]:max-w-full [&_.katex]:!overflow-x-auto [&_.katex]:!overflow-y-hidden`}
-              remarkPlugins={[remarkMath]}
-              rehypePlugins={[rehypeKatex]}
-              components={{
-                p: ({ children }) => <span className="my-0">{children}</span>,
-                a: ({ href, children }) => (
-                  <a
-                    href={href}
-                    className="text-blue-500 hover:underline"
-                    target="_blank"
-                    rel="noopener noreferrer"
+        <MessageList
+          messages={visibleMessages}
+          userId={userId}
+          hasMore={hasMoreHistory}
+          isLoadingOlder={isLoadingHistory}
+          onLoadOlder={onLoadOlderMessages}
+          focusMessageId={focusMessageId}
+          onFocusHandled={onFocusHandled}
+          onRetryMessage={onRetryMessage}
+          onDiscardMessage={onDiscardMessage}
+          messageActions={messageActions}
+          onReplyToMessage={handleReplyToMessage}
+          onOpenThread={handleOpenThread}
+        />
+        {activities.length > 0 && (
+          <ActivityIndicators activities={activities} />
+        )}
+        <div className="bg-gray-100 p-4">
+          <div className="max-w-3xl mx-auto">
+            {selectedChat.isConcluded ? (
+              <div className="flex items-center justify-center text-sm text-gray-600 h-10">
+                <Lock size={14} className="mr-2" />
+                This chat has been concluded.
+                <button
+                  onClick={handleReopenChat}
+                  disabled={isReopening}
+                  className="ml-2 font-medium text-[#1b2e5c] hover:underline disabled:opacity-50"
+                >
+                  {isReopening ? "Reopening..." : "Reopen"}
+                </button>
+                {reopenError && (
+                  <span className="ml-2 text-red-600">{reopenError}</span>
+                )}
+              </div>
+            ) : (
+              <>
+                {replyTo && (
+                  <div className="flex items-center mb-2 ml-4 text-xs text-gray-600">
+                    <CornerUpLeft size={12} className="mr-1 flex-shrink-0" />
+                    <span className="truncate">
+                      Replying to{" "}
+                      <span className="font-medium">
+                        {replyTo.senderId
+                          ? memberName(replyTo.senderId)
+                          : "System"}
+                      </span>
+                      : {replyTo.content.text}
+                    </span>
+                    <button
+                      onClick={() => setReplyTo(null)}
+                      className="ml-2 p-0.5 rounded text-gray-500 hover:bg-gray-200 hover:text-gray-900 flex-shrink-0"
+                      title="Cancel reply"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                )}
+                {attachments.length > 0 && (
+                  <AttachmentPreviews
+                    attachments={attachments}
+                    onRetry={retryAttachment}
+                    onRemove={removeAttachment}
+                  />
+                )}
+                {hasFailedUploads && (
+                  <div className="mb-2 ml-4 text-xs text-red-600">
+                    Retry or remove the attachments that failed to upload before
+                    sending.
+                  </div>
+                )}
+                <div className="relative flex items-center">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    onChange={handleFileInputChange}
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-gray-600 rounded-full p-2 h-10 w-10 mr-1 flex items-center justify-center flex-shrink-0 hover:bg-gray-200 transition-colors"
+                    title="Attach files"
+                  >
+                    <Paperclip size={16} />
+                  </button>
+                  {mentionSuggestions.length > 0 && (
+                    <MentionSuggestions
+                      candidates={mentionSuggestions}
+                      activeIndex={mentionIndex}
+                      onSelect={insertMention}
+                      onHover={setMentionIndex}
+                    />
+                  )}
+                  <textarea
+                    ref={textareaRef}
+                    value={inputMessage}
+                    onChange={handleInputChange}
+                    onKeyDown={handleKeyDown}
+                    onPaste={handlePaste}
+                    onBlur={() => setMentionQuery(null)}
+                    placeholder="Kick off the conversation... Type @ to address a member."
+                    className="flex-1 border rounded-2xl py-2 px-4 mr-2 max-h-32 min-h-[2.5rem] resize-none overflow-y-auto break-words"
+                    rows={1}
+                    style={{ width: "calc(100% - 5.75rem)" }}
+                  />
+                  <button
+                    onClick={handleSendMessage}
+                    disabled={isUploading || hasFailedUploads}
+                    className={`bg-[#1b2e5c] text-white rounded-full p-2 h-10 w-10 flex items-center justify-center flex-shrink-0 transition-colors disabled:opacity-50 ${
+                      canSend ? "hover:bg-blue-600" : ""
+                    }`}
+                    title={
+                      isUploading
+                        ? "Waiting for uploads..."
+                        : hasFailedUploads
+                          ? "Some attachments failed to upload"
+                          : undefined
+                    }
                   >
-                    {children}
-                  </a>
-                ),
-                code: ({ children }) => (
-                  <code className="rounded px-1 py-0.5">{children}</code>
-                ),
-              }}
-            >
-              {message.content.text}
-            </ReactMarkdown>
+                    {isUploading ? (
+                      <Loader2 size={16} className="animate-spin" />
+                    ) : (
+                      <Send size={16} />
+                    )}
+                  </button>
+                </div>
+                {hasMentions && (
+                  <label className="flex items-center mt-2 ml-4 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={onlyMentionedReply}
+                      onChange={(e) => setOnlyMentionedReply(e.target.checked)}
+                      className="mr-2"
+                    />
+                    Only mentioned agents reply
+                  </label>
+                )}
+              </>
+            )}
           </div>
         </div>
       </div>
-    </div>
-  );
-}
-
-interface SystemMessageProps {
-  message: Message;
-}
-
-function SystemMessage({ message }: SystemMessageProps): JSX.Element {
-  return (
-    <div className="flex justify-center my-2">
-      <span className="text-xs text-gray-500">{message.content.text}</span>
+      {liveThreadRoot && (
+        <ThreadPanel
+          rootMessage={liveThreadRoot}
+          messages={messages}
+          userId={userId}
+          onLoadReplies={onLoadThread}
+          onReply={handleReplyToMessage}
+          onClose={() => setThreadRoot(null)}
+        />
+      )}
     </div>
   );
 }
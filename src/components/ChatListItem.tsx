@@ -0,0 +1,228 @@
+// src/components/ChatListItem.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  Flag,
+  MoreHorizontal,
+  Pencil,
+  Pin,
+  PinOff,
+  Trash2,
+} from "lucide-react";
+import { Chat } from "@/types";
+
+interface ChatListItemProps {
+  chat: Chat;
+  displayName: string;
+  preview: string;
+  isSelected: boolean;
+  // A member is typing or thinking in this chat
+  hasActivity?: boolean;
+  onSelect: (chat: Chat) => void;
+  onPin: (chat: Chat, pinned: boolean) => void;
+  onArchive: (chat: Chat, archived: boolean) => void;
+  onRename: (chat: Chat, name: string) => void;
+  onDelete: (chat: Chat) => void;
+}
+
+export function ChatListItem({
+  chat,
+  displayName,
+  preview,
+  isSelected,
+  hasActivity = false,
+  onSelect,
+  onPin,
+  onArchive,
+  onRename,
+  onDelete,
+}: ChatListItemProps): JSX.Element {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState("");
+  // Enter commits and then unmounts the input, which blurs it; the blur
+  // must not commit the same rename again
+  const isRenameDoneRef = useRef(false);
+  const itemRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu on any click outside this item
+  useEffect(() => {
+    if (!isMenuOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!itemRef.current?.contains(event.target as Node)) {
+        setIsMenuOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isMenuOpen]);
+
+  const runAction = (action: () => void) => {
+    setIsMenuOpen(false);
+    action();
+  };
+
+  const startRename = () => {
+    setDraftName(chat.name ?? "");
+    isRenameDoneRef.current = false;
+    setIsRenaming(true);
+  };
+
+  const cancelRename = () => {
+    isRenameDoneRef.current = true;
+    setIsRenaming(false);
+  };
+
+  const commitRename = () => {
+    if (isRenameDoneRef.current) return;
+    isRenameDoneRef.current = true;
+    setIsRenaming(false);
+    const name = draftName.trim();
+    if (name && name !== chat.name) {
+      onRename(chat, name);
+    }
+  };
+
+  const handleRenameKeyDown = (
+    event: React.KeyboardEvent<HTMLInputElement>
+  ) => {
+    if (event.key === "Enter") {
+      commitRename();
+    } else if (event.key === "Escape") {
+      cancelRename();
+    }
+  };
+
+  return (
+    <div
+      ref={itemRef}
+      className={`group relative flex items-center p-2.5 h-16 cursor-pointer rounded-lg mx-2 my-1 ${
+        isSelected ? "bg-[#1b2e5c] text-white" : "hover:bg-gray-100"
+      }`}
+      onClick={() => !isRenaming && onSelect(chat)}
+      onContextMenu={(event) => {
+        event.preventDefault();
+        setIsMenuOpen(true);
+      }}
+    >
+      <div className="flex-1 min-w-0">
+        {isRenaming ? (
+          <input
+            type="text"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={handleRenameKeyDown}
+            onBlur={commitRename}
+            onClick={(e) => e.stopPropagation()}
+            autoFocus
+            className="w-full px-1 text-sm font-semibold text-gray-900 border border-gray-300 rounded"
+          />
+        ) : (
+          <h3 className="font-semibold text-sm truncate flex items-center">
+            {chat.isPinned && <Pin size={12} className="mr-1 flex-shrink-0" />}
+            <span className="truncate">{displayName}</span>
+            {hasActivity && (
+              <span
+                className={`ml-1.5 w-2 h-2 rounded-full flex-shrink-0 animate-pulse ${
+                  isSelected ? "bg-green-300" : "bg-green-500"
+                }`}
+                title="An agent is working on a reply"
+              />
+            )}
+            {chat.isConcluded && (
+              <span
+                className={`ml-1 px-1.5 rounded-full text-[10px] font-medium flex items-center flex-shrink-0 ${
+                  isSelected
+                    ? "bg-white text-[#1b2e5c]"
+                    : "bg-gray-200 text-gray-700"
+                }`}
+                title="Concluded"
+              >
+                <Flag size={10} className="mr-0.5" />
+                Concluded
+              </span>
+            )}
+          </h3>
+        )}
+        <p
+          className={`text-xs truncate ${
+            isSelected ? "text-gray-300" : "text-gray-500"
+          }`}
+        >
+          {preview}
+        </p>
+      </div>
+
+      <button
+        onClick={(event) => {
+          event.stopPropagation();
+          setIsMenuOpen((prev) => !prev);
+        }}
+        className={`ml-1 p-1 rounded-md opacity-0 group-hover:opacity-100 ${
+          isMenuOpen ? "opacity-100" : ""
+        } ${isSelected ? "hover:bg-blue-900" : "hover:bg-gray-200"}`}
+        title="Chat actions"
+      >
+        <MoreHorizontal size={16} />
+      </button>
+
+      {isMenuOpen && (
+        <div
+          className="absolute right-2 top-12 bg-white border rounded-md shadow-lg z-40 w-40 py-1 text-sm text-gray-700"
+          onClick={(event) => event.stopPropagation()}
+        >
+          <button
+            onClick={() => runAction(() => onPin(chat, !chat.isPinned))}
+            className="w-full flex items-center px-3 py-1.5 hover:bg-gray-100"
+          >
+            {chat.isPinned ? (
+              <>
+                <PinOff size={14} className="mr-2" />
+                Unpin
+              </>
+            ) : (
+              <>
+                <Pin size={14} className="mr-2" />
+                Pin to top
+              </>
+            )}
+          </button>
+          <button
+            onClick={() => runAction(startRename)}
+            className="w-full flex items-center px-3 py-1.5 hover:bg-gray-100"
+          >
+            <Pencil size={14} className="mr-2" />
+            Rename
+          </button>
+          <button
+            onClick={() => runAction(() => onArchive(chat, !chat.isArchived))}
+            className="w-full flex items-center px-3 py-1.5 hover:bg-gray-100"
+          >
+            {chat.isArchived ? (
+              <>
+                <ArchiveRestore size={14} className="mr-2" />
+                Unarchive
+              </>
+            ) : (
+              <>
+                <Archive size={14} className="mr-2" />
+                Archive
+              </>
+            )}
+          </button>
+          <button
+            onClick={() => runAction(() => onDelete(chat))}
+            className="w-full flex items-center px-3 py-1.5 text-red-600 hover:bg-red-50"
+          >
+            <Trash2 size={14} className="mr-2" />
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+// src/components/CodeBlock.tsx
+"use client";
+
+import {
+  Children,
+  isValidElement,
+  ReactNode,
+  useEffect,
+  useState,
+} from "react";
+import { Check, Copy, WrapText } from "lucide-react";
+import { MermaidDiagram } from "./MermaidDiagram";
+
+const COPIED_FEEDBACK_MS = 1500;
+
+// Minimal hast shape; enough to read back the raw source of a block
+interface HastNode {
+  type: string;
+  value?: string;
+  children?: HastNode[];
+}
+
+function hastText(node: HastNode | undefined): string {
+  if (!node) return "";
+  if (node.type === "text") return node.value ?? "";
+  return (node.children ?? []).map(hastText).join("");
+}
+
+interface CodeBlockProps {
+  // The <pre> element's hast node and its rendered <code> child
+  node?: HastNode;
+  children: ReactNode;
+}
+
+// Fenced code: react-markdown renders it as <pre><code>, so the block is
+// recognised from the <pre> and its <code> child is unwrapped here rather
+// than styled as inline code.
+export function CodeBlock({ node, children }: CodeBlockProps): JSX.Element {
+  const [isWrapped, setIsWrapped] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+
+  const code = Children.toArray(children).find(isValidElement) as
+    | React.ReactElement<{ className?: string; children?: ReactNode }>
+    | undefined;
+  const className = code?.props.className ?? "";
+  const language = className.match(/language-(\S+)/)?.[1] ?? null;
+  const source = hastText(node).replace(/\n$/, "");
+
+  useEffect(() => {
+    if (!isCopied) return;
+    const timeout = setTimeout(() => setIsCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timeout);
+  }, [isCopied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(source);
+      setIsCopied(true);
+    } catch (error) {
+      console.error("Failed to copy code:", error);
+    }
+  };
+
+  const block = (
+    <div className="not-prose my-2 rounded-lg overflow-hidden bg-[#0d1117] text-gray-100 max-w-full">
+      <div className="flex items-center justify-between px-3 py-1 bg-gray-800 text-xs text-gray-300">
+        <span className="font-mono lowercase">{language ?? "code"}</span>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setIsWrapped((prev) => !prev)}
+            className={`p-1 rounded hover:bg-gray-700 ${
+              isWrapped ? "text-white" : ""
+            }`}
+            title={isWrapped ? "Scroll long lines" : "Wrap long lines"}
+          >
+            <WrapText size={14} />
+          </button>
+          <button
+            onClick={handleCopy}
+            className="p-1 rounded hover:bg-gray-700"
+            title="Copy code"
+          >
+            {isCopied ? <Check size={14} /> : <Copy size={14} />}
+          </button>
+        </div>
+      </div>
+      <pre
+        className={`m-0 p-3 text-sm leading-relaxed ${
+          isWrapped
+            ? "whitespace-pre-wrap break-words"
+            : "whitespace-pre overflow-x-auto"
+        }`}
+      >
+        <code className={`${className} !bg-transparent !p-0 font-mono`}>
+          {code?.props.children ?? children}
+        </code>
+      </pre>
+    </div>
+  );
+
+  if (language === "mermaid") {
+    return <MermaidDiagram source={source}>{block}</MermaidDiagram>;
+  }
+  return block;
+}
@@ -0,0 +1,191 @@
+// src/components/ConcludeDialog.tsx
+"use client";
+
+import { useState } from "react";
+import { Loader2, Sparkles } from "lucide-react";
+import { Chat, Member } from "@/types";
+import { chatApi } from "@/api/chat";
+import { MarkdownContent } from "./MessageBubble";
+
+interface ConcludeDialogProps {
+  chat: Chat;
+  members: Member[];
+  onClose: () => void;
+  onConcluded: (updatedChat: Partial<Chat>) => void;
+}
+
+export function ConcludeDialog({
+  chat,
+  members,
+  onClose,
+  onConcluded,
+}: ConcludeDialogProps): JSX.Element {
+  const agents = members.filter(
+    (member) => member.type === "PROGRAM" && chat.memberIds.includes(member.id)
+  );
+  const [conclusion, setConclusion] = useState(chat.conclusion ?? "");
+  const [drafterId, setDrafterId] = useState(agents[0]?.id ?? "");
+  const [showPreview, setShowPreview] = useState(false);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isConcluding, setIsConcluding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDraft = async () => {
+    if (!drafterId) return;
+
+    setIsDrafting(true);
+    setError(null);
+    try {
+      setConclusion(await chatApi.draftConclusion(chat.id, drafterId));
+      setShowPreview(false);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to draft conclusion"
+      );
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleConclude = async () => {
+    if (!conclusion.trim()) {
+      setError("Please write a conclusion");
+      return;
+    }
+
+    setIsConcluding(true);
+    setError(null);
+    try {
+      const updatedChat = await chatApi.concludeChat(
+        chat.id,
+        conclusion.trim()
+      );
+      onConcluded({
+        id: chat.id,
+        conclusion: updatedChat.conclusion,
+        isConcluded: true,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to conclude chat");
+    } finally {
+      setIsConcluding(false);
+    }
+  };
+
+  const isBusy = isDrafting || isConcluding;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto text-gray-900">
+        <h3 className="text-lg font-semibold mb-1">Conclude Chat</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          The conclusion is pinned to the top of the chat and the conversation
+          is closed to new messages until it is reopened.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {agents.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Draft with an agent
+              </label>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={drafterId}
+                  onChange={(e) => setDrafterId(e.target.value)}
+                  disabled={isBusy}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  {agents.map((agent) => (
+                    <option key={agent.id} value={agent.id}>
+                      {agent.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleDraft}
+                  disabled={isBusy || !drafterId}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium flex items-center disabled:opacity-50"
+                >
+                  {isDrafting ? (
+                    <Loader2 size={14} className="animate-spin mr-2" />
+                  ) : (
+                    <Sparkles size={14} className="mr-2" />
+                  )}
+                  {isDrafting ? "Drafting..." : "Draft"}
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                The agent reads the whole transcript; you can edit its draft
+                before concluding.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">
+                Conclusion
+              </label>
+              <button
+                onClick={() => setShowPreview((prev) => !prev)}
+                className="text-xs text-gray-500 hover:underline"
+              >
+                {showPreview ? "Edit" : "Preview"}
+              </button>
+            </div>
+            {showPreview ? (
+              <div className="p-3 bg-gray-100 rounded-md min-h-[3rem]">
+                <MarkdownContent text={conclusion} isUser={false} />
+              </div>
+            ) : (
+              <textarea
+                value={conclusion}
+                onChange={(e) => setConclusion(e.target.value)}
+                disabled={isDrafting}
+                rows={8}
+                placeholder="Summarise the outcome: decisions, open questions, next steps... Markdown and LaTeX are supported."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end space-x-3">
+          {!isConcluding && (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleConclude}
+            disabled={isBusy || !conclusion.trim()}
+            className={`px-4 py-2 text-sm font-medium rounded-md flex items-center text-white ${
+              isBusy || !conclusion.trim()
+                ? "bg-gray-400 cursor-not-allowed"
+                : "bg-[#1b2e5c] hover:bg-blue-600"
+            }`}
+          >
+            {isConcluding ? (
+              <>
+                <Loader2 className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                Concluding...
+              </>
+            ) : (
+              "Conclude"
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+// src/components/ConclusionCard.tsx
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Flag } from "lucide-react";
+import { MarkdownContent } from "./MessageBubble";
+
+interface ConclusionCardProps {
+  conclusion: string;
+}
+
+export function ConclusionCard({
+  conclusion,
+}: ConclusionCardProps): JSX.Element {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  return (
+    <div className="bg-gray-100 px-4 pb-2">
+      <div className="max-w-3xl mx-auto bg-white border border-[#1b2e5c] rounded-lg">
+        <button
+          onClick={() => setIsExpanded((prev) => !prev)}
+          className="w-full flex items-center px-3 py-2 text-sm font-semibold text-[#1b2e5c]"
+        >
+          <Flag size={14} className="mr-2" />
+          Conclusion
+          <span className="ml-auto text-gray-500">
+            {isExpanded ? (
+              <ChevronDown size={16} />
+            ) : (
+              <ChevronRight size={16} />
+            )}
+          </span>
+        </button>
+        {isExpanded && (
+          <div className="px-3 pb-3 max-h-60 overflow-y-auto text-sm">
+            <MarkdownContent text={conclusion} isUser={false} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+// src/components/ExportMenu.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Chat, Member } from "@/types";
+import { chatApi } from "@/api/chat";
+import {
+  downloadFile,
+  exportFileName,
+  toHtml,
+  toJson,
+  toMarkdown,
+} from "@/lib/export";
+
+type ExportFormat = "markdown" | "json" | "html";
+
+interface ExportMenuProps {
+  chat: Chat;
+  members: Member[];
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown (.md)" },
+  { format: "json", label: "JSON (.json)" },
+  { format: "html", label: "Standalone HTML (.html)" },
+];
+
+export function ExportMenu({ chat, members }: ExportMenuProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeSystem, setIncludeSystem] = useState(true);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      // The open chat may only have its latest page loaded, so fetch it all
+      const messages = await chatApi.getChatMessages(chat.id);
+      const input = { chat, messages, members };
+      const options = { includeSystem };
+
+      if (format === "markdown") {
+        downloadFile(
+          exportFileName(chat, members, "md"),
+          toMarkdown(input, options),
+          "text/markdown"
+        );
+      } else if (format === "json") {
+        downloadFile(
+          exportFileName(chat, members, "json"),
+          toJson(input, options),
+          "application/json"
+        );
+      } else {
+        downloadFile(
+          exportFileName(chat, members, "html"),
+          await toHtml(input, options),
+          "text/html"
+        );
+      }
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Failed to export chat:", err);
+      setError("Failed to export chat.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="w-8 h-8 rounded-full bg-gray-200 text-gray-700 flex items-center justify-center hover:bg-gray-300 transition-colors"
+        title="Export chat"
+      >
+        <Download size={16} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-10 bg-white border rounded-md shadow-lg z-40 w-56 py-1 text-sm text-gray-700">
+          {FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              className="w-full flex items-center px-3 py-1.5 hover:bg-gray-100 disabled:opacity-50"
+            >
+              {exporting === format && (
+                <Loader2 size={14} className="mr-2 animate-spin" />
+              )}
+              {label}
+            </button>
+          ))}
+          <label className="flex items-center px-3 py-1.5 border-t mt-1 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={includeSystem}
+              onChange={(e) => setIncludeSystem(e.target.checked)}
+              className="mr-2"
+            />
+            Include system messages
+          </label>
+          {error && <p className="px-3 py-1 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
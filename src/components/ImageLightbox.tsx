@@ -0,0 +1,60 @@
+// src/components/ImageLightbox.tsx
+"use client";
+
+import { useEffect } from "react";
+import { Download, X } from "lucide-react";
+import { ImagePart } from "@/types";
+
+interface ImageLightboxProps {
+  image: ImagePart;
+  onClose: () => void;
+}
+
+export function ImageLightbox({
+  image,
+  onClose,
+}: ImageLightboxProps): JSX.Element {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-80 flex flex-col items-center justify-center z-50 p-8"
+      onClick={onClose}
+    >
+      <div
+        className="absolute top-4 right-4 flex items-center space-x-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <a
+          href={image.url}
+          download={image.name}
+          className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20"
+          title="Download"
+        >
+          <Download size={18} />
+        </a>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20"
+          title="Close"
+        >
+          <X size={18} />
+        </button>
+      </div>
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={image.url}
+        alt={image.name}
+        className="max-w-full max-h-full object-contain rounded"
+        onClick={(e) => e.stopPropagation()}
+      />
+      <p className="mt-2 text-sm text-gray-300">{image.name}</p>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+// src/components/ImportTranscriptDialog.tsx
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Chat, Message } from "@/types";
+import { chatApi } from "@/api/chat";
+import { useCurrentUser } from "@/context/SessionContext";
+import { useMembers } from "@/hooks/useMembers";
+import {
+  buildImportedContext,
+  parseTranscript,
+  ParsedTranscript,
+  resolveSpeakers,
+  SpeakerMapping,
+  toReplayMessages,
+  transcriptSpeakers,
+} from "@/lib/import";
+import { TranscriptReplay } from "./TranscriptReplay";
+
+interface ImportTranscriptDialogProps {
+  onClose: () => void;
+  onCreated: (chat: Chat) => void;
+}
+
+export function ImportTranscriptDialog({
+  onClose,
+  onCreated,
+}: ImportTranscriptDialogProps): JSX.Element {
+  const currentUser = useCurrentUser();
+  const { members, isLoading: isMembersLoading } = useMembers();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<ParsedTranscript | null>(null);
+  const [mapping, setMapping] = useState<SpeakerMapping>({});
+  const [name, setName] = useState("");
+  const [topic, setTopic] = useState("");
+  const [replayMessages, setReplayMessages] = useState<Message[] | null>(null);
+  const [isCreatingChat, setIsCreatingChat] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const speakers = transcript ? transcriptSpeakers(transcript) : [];
+  const unresolved = speakers.filter((speaker) => !mapping[speaker]);
+  const defaultName = `Imported: ${transcript?.title ?? fileName ?? ""}`;
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setError(null);
+    try {
+      const parsed = parseTranscript(await file.text(), file.name);
+      setTranscript(parsed);
+      setMapping(resolveSpeakers(parsed, members));
+      setTopic(parsed.topic ?? "");
+    } catch (err) {
+      setTranscript(null);
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    }
+  };
+
+  const handleMappingChange = (speaker: string, memberId: string) => {
+    setMapping((prev) => ({ ...prev, [speaker]: memberId || null }));
+  };
+
+  const handleCreateChat = async () => {
+    if (!transcript) return;
+
+    const memberIds = new Set<string>([currentUser.id]);
+    for (const memberId of Object.values(mapping)) {
+      if (memberId) memberIds.add(memberId);
+    }
+
+    setIsCreatingChat(true);
+    setError(null);
+    try {
+      const newChat = await chatApi.createChat({
+        memberIds: Array.from(memberIds),
+        name: name.trim() || defaultName,
+        topic: topic.trim() || undefined,
+        context: buildImportedContext(transcript, mapping, members),
+        creator: currentUser.id,
+      });
+
+      onCreated(newChat);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create chat");
+    } finally {
+      setIsCreatingChat(false);
+    }
+  };
+
+  if (transcript && replayMessages) {
+    return (
+      <TranscriptReplay
+        title={transcript.title ?? fileName ?? "Transcript"}
+        messages={replayMessages}
+        onClose={() => setReplayMessages(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto text-gray-900">
+        <h3 className="text-lg font-semibold mb-4">Import Transcript</h3>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Transcript file (JSON or Markdown)
+            </label>
+            <input
+              type="file"
+              accept=".json,.md,.markdown,.txt,application/json,text/markdown,text/plain"
+              onChange={handleFileChange}
+              disabled={isMembersLoading}
+              className="w-full text-sm"
+            />
+          </div>
+
+          {transcript && (
+            <>
+              <p className="text-sm text-gray-600">
+                {transcript.entries.length} messages from {speakers.length}{" "}
+                speakers
+                {transcript.title && <> in &ldquo;{transcript.title}&rdquo;</>}.
+              </p>
+
+              <div>
+                <div className="block text-sm font-medium text-gray-700 mb-1">
+                  Speakers
+                </div>
+                <div className="border rounded-md divide-y">
+                  {speakers.map((speaker) => (
+                    <div
+                      key={speaker}
+                      className="flex items-center justify-between p-2 text-sm"
+                    >
+                      <span className="flex items-center min-w-0 truncate">
+                        {!mapping[speaker] && (
+                          <AlertTriangle
+                            size={14}
+                            className="mr-1 text-yellow-600 flex-shrink-0"
+                          />
+                        )}
+                        {transcript.speakerNames[speaker] ?? speaker}
+                      </span>
+                      <select
+                        value={mapping[speaker] ?? ""}
+                        onChange={(e) =>
+                          handleMappingChange(speaker, e.target.value)
+                        }
+                        className="ml-2 px-2 py-1 border rounded-md"
+                      >
+                        <option value="">Unresolved</option>
+                        {members.map((member) => (
+                          <option key={member.id} value={member.id}>
+                            {member.name} ({member.id})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                {unresolved.length > 0 && (
+                  <p className="mt-2 text-xs text-yellow-700">
+                    No member found for {unresolved.join(", ")}. Their messages
+                    are kept under the transcript name and they won&apos;t be
+                    added to the chat.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Chat Name
+                </label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={defaultName}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Topic
+                </label>
+                <input
+                  type="text"
+                  value={topic}
+                  onChange={(e) => setTopic(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-end space-x-3">
+          {!isCreatingChat && (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={() =>
+              transcript &&
+              setReplayMessages(toReplayMessages(transcript, mapping))
+            }
+            disabled={!transcript || isCreatingChat}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium disabled:opacity-50"
+          >
+            Replay
+          </button>
+          <button
+            onClick={handleCreateChat}
+            disabled={!transcript || isCreatingChat}
+            className={`px-4 py-2 text-sm font-medium rounded-md flex items-center text-white ${
+              !transcript || isCreatingChat
+                ? "bg-gray-400 cursor-not-allowed"
+                : "bg-[#1b2e5c] hover:bg-blue-600"
+            }`}
+          >
+            {isCreatingChat ? (
+              <>
+                <Loader2 className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                Creating...
+              </>
+            ) : (
+              "Create chat"
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
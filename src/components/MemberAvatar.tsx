@@ -0,0 +1,48 @@
+// src/components/MemberAvatar.tsx
+"use client";
+
+import { useState } from "react";
+import { useMemberDirectory } from "@/context/MembersContext";
+import { memberColor, memberInitials } from "@/lib/members";
+
+const SIZE_CLASSES = {
+  sm: "w-6 h-6 text-[10px]",
+  md: "w-8 h-8 text-xs",
+};
+
+interface MemberAvatarProps {
+  memberId: string;
+  size?: keyof typeof SIZE_CLASSES;
+}
+
+export function MemberAvatar({
+  memberId,
+  size = "md",
+}: MemberAvatarProps): JSX.Element {
+  const { getMember, memberName } = useMemberDirectory();
+  const [hasImageError, setHasImageError] = useState(false);
+  const avatarUrl = getMember(memberId)?.avatarUrl;
+  const name = memberName(memberId);
+
+  if (avatarUrl && !hasImageError) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={avatarUrl}
+        alt={name}
+        onError={() => setHasImageError(true)}
+        className={`${SIZE_CLASSES[size]} rounded-full flex-shrink-0 object-cover`}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={`${SIZE_CLASSES[size]} rounded-full flex-shrink-0 flex items-center justify-center font-semibold text-white`}
+      style={{ backgroundColor: memberColor(memberId) }}
+      aria-label={name}
+    >
+      {memberInitials(name)}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+// src/components/MemberName.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { useMemberDirectory } from "@/context/MembersContext";
+import { memberColor } from "@/lib/members";
+import { MemberAvatar } from "./MemberAvatar";
+
+// Delay before the card opens, so sweeping the pointer past names is quiet
+const HOVER_DELAY_MS = 400;
+
+interface MemberNameProps {
+  memberId: string;
+  // Tint the name with the member's color
+  colored?: boolean;
+  className?: string;
+}
+
+// A member's name that shows who they are on hover. The card is portalled
+// to the body so scroll containers and virtualized rows don't clip it.
+export function MemberName({
+  memberId,
+  colored = false,
+  className = "",
+}: MemberNameProps): JSX.Element {
+  const { getMember, memberName } = useMemberDirectory();
+  const [cardPosition, setCardPosition] = useState<{
+    top: number;
+    left: number;
+  } | null>(null);
+  const nameRef = useRef<HTMLSpanElement>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const member = getMember(memberId);
+
+  useEffect(() => () => clearTimeout(timeoutRef.current), []);
+
+  const openSoon = () => {
+    clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(() => {
+      const rect = nameRef.current?.getBoundingClientRect();
+      if (rect) setCardPosition({ top: rect.bottom + 4, left: rect.left });
+    }, HOVER_DELAY_MS);
+  };
+
+  const close = () => {
+    clearTimeout(timeoutRef.current);
+    setCardPosition(null);
+  };
+
+  return (
+    <span
+      ref={nameRef}
+      className={className}
+      style={colored ? { color: memberColor(memberId) } : undefined}
+      onMouseEnter={openSoon}
+      onMouseLeave={close}
+    >
+      {memberName(memberId)}
+      {cardPosition &&
+        member &&
+        createPortal(
+          <div
+            className="fixed z-50 w-64 bg-white border rounded-md shadow-lg p-3 text-sm text-gray-900 pointer-events-none"
+            style={cardPosition}
+          >
+            <div className="flex items-center">
+              <MemberAvatar memberId={memberId} />
+              <div className="ml-2 min-w-0">
+                <div className="font-semibold truncate">{member.name}</div>
+                <div className="text-xs text-gray-500 truncate">
+                  {member.id}
+                  {member.type === "PROGRAM" ? " · Agent" : ""}
+                </div>
+              </div>
+            </div>
+            {member.description && (
+              <p className="mt-2 text-xs text-gray-700 line-clamp-4">
+                {member.description}
+              </p>
+            )}
+          </div>,
+          document.body
+        )}
+    </span>
+  );
+}
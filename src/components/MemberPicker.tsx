@@ -0,0 +1,69 @@
+// src/components/MemberPicker.tsx
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { Member } from "@/types";
+
+interface MemberPickerProps {
+  members: Member[];
+  selectedIds: string[];
+  onToggle: (memberId: string) => void;
+  isLoading?: boolean;
+  // Members that are not offered, e.g. those already in the chat
+  excludeIds?: string[];
+  showDescriptions?: boolean;
+}
+
+// Checkbox list of the AI agents that can take part in a chat
+export function MemberPicker({
+  members,
+  selectedIds,
+  onToggle,
+  isLoading = false,
+  excludeIds = [],
+  showDescriptions = false,
+}: MemberPickerProps): JSX.Element {
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center p-4">
+        <Loader2 className="animate-spin text-gray-500" size={24} />
+      </div>
+    );
+  }
+
+  const candidates = members.filter(
+    (member) => member.type === "PROGRAM" && !excludeIds.includes(member.id)
+  );
+
+  if (candidates.length === 0) {
+    return <p className="p-3 text-sm text-gray-500">No agents available.</p>;
+  }
+
+  return (
+    <>
+      {candidates.map((member) => (
+        <div
+          key={member.id}
+          className="flex items-center p-3 hover:bg-gray-50 cursor-pointer"
+          onClick={() => onToggle(member.id)}
+        >
+          <input
+            type="checkbox"
+            checked={selectedIds.includes(member.id)}
+            onChange={() => {}}
+            className="mr-3 flex-shrink-0"
+          />
+          <div className="flex flex-col">
+            <span className="font-medium">{member.name}</span>
+            <span className="text-sm text-gray-500">{member.id}</span>
+            {showDescriptions && member.description && (
+              <span className="text-sm text-gray-600 mt-0.5">
+                {member.description}
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
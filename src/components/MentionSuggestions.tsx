@@ -0,0 +1,50 @@
+// src/components/MentionSuggestions.tsx
+"use client";
+
+export interface MentionCandidate {
+  id: string;
+  name: string;
+}
+
+interface MentionSuggestionsProps {
+  candidates: MentionCandidate[];
+  activeIndex: number;
+  onSelect: (candidate: MentionCandidate) => void;
+  onHover: (index: number) => void;
+}
+
+export function MentionSuggestions({
+  candidates,
+  activeIndex,
+  onSelect,
+  onHover,
+}: MentionSuggestionsProps): JSX.Element {
+  return (
+    <ul
+      className="absolute bottom-full left-0 mb-2 w-64 bg-white border rounded-md shadow-lg z-40 py-1 text-sm"
+      role="listbox"
+    >
+      {candidates.map((candidate, index) => (
+        <li
+          key={candidate.id}
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus in the textarea so the caret position survives
+          onMouseDown={(event) => {
+            event.preventDefault();
+            onSelect(candidate);
+          }}
+          onMouseEnter={() => onHover(index)}
+          className={`px-3 py-1.5 cursor-pointer flex items-baseline ${
+            index === activeIndex ? "bg-gray-100" : ""
+          }`}
+        >
+          <span className="font-medium truncate">{candidate.name}</span>
+          <span className="ml-2 text-xs text-gray-500 truncate">
+            @{candidate.id}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,102 @@
+// src/components/MermaidDiagram.tsx
+"use client";
+
+import { ReactNode, useEffect, useId, useState } from "react";
+import { Code2, Loader2, Workflow } from "lucide-react";
+
+interface MermaidDiagramProps {
+  source: string;
+  // Shown instead of the diagram on request or when it can't be rendered
+  children: ReactNode;
+}
+
+let isInitialized = false;
+
+// Mermaid is large and browser-only, so it is loaded on first use
+async function renderMermaid(id: string, source: string): Promise<string> {
+  const mermaid = (await import("mermaid")).default;
+  if (!isInitialized) {
+    mermaid.initialize({ startOnLoad: false, securityLevel: "strict" });
+    isInitialized = true;
+  }
+  // parse() throws on invalid input without leaving error output in the page
+  await mermaid.parse(source);
+  const { svg } = await mermaid.render(id, source);
+  return svg;
+}
+
+export function MermaidDiagram({
+  source,
+  children,
+}: MermaidDiagramProps): JSX.Element {
+  const id = `mermaid-${useId().replace(/[^a-zA-Z0-9_-]/g, "")}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showSource, setShowSource] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setError(null);
+
+    renderMermaid(id, source)
+      .then((rendered) => {
+        if (isCurrent) setSvg(rendered);
+      })
+      .catch((err) => {
+        if (!isCurrent) return;
+        setSvg(null);
+        setError(err instanceof Error ? err.message : "Invalid diagram");
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [id, source]);
+
+  if (error) {
+    return (
+      <div className="not-prose my-2">
+        {children}
+        <p className="text-xs text-red-600 mt-1 line-clamp-2" title={error}>
+          Couldn&apos;t render diagram: {error}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="not-prose my-2 max-w-full">
+      <div className="flex justify-end mb-1">
+        <button
+          onClick={() => setShowSource((prev) => !prev)}
+          className="flex items-center text-xs opacity-70 hover:opacity-100"
+        >
+          {showSource ? (
+            <>
+              <Workflow size={12} className="mr-1" />
+              Show diagram
+            </>
+          ) : (
+            <>
+              <Code2 size={12} className="mr-1" />
+              Show source
+            </>
+          )}
+        </button>
+      </div>
+      {showSource ? (
+        children
+      ) : svg ? (
+        <div
+          className="bg-white rounded-lg p-2 overflow-x-auto [&_svg]:max-w-full [&_svg]:h-auto"
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      ) : (
+        <div className="flex items-center text-xs opacity-70 p-2">
+          <Loader2 size={12} className="animate-spin mr-1" />
+          Rendering diagram...
+        </div>
+      )}
+    </div>
+  );
+}
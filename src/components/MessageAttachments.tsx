@@ -0,0 +1,87 @@
+// src/components/MessageAttachments.tsx
+"use client";
+
+import { useState } from "react";
+import { Download, FileText } from "lucide-react";
+import { ImagePart } from "@/types";
+import {
+  AttachmentPart,
+  formatFileSize,
+  isSafeAttachmentUrl,
+} from "@/lib/attachments";
+import { ImageLightbox } from "./ImageLightbox";
+
+interface MessageAttachmentsProps {
+  attachments: AttachmentPart[];
+  alignRight: boolean;
+}
+
+export function MessageAttachments({
+  attachments,
+  alignRight,
+}: MessageAttachmentsProps): JSX.Element {
+  const [openImage, setOpenImage] = useState<ImagePart | null>(null);
+  // Parts from the server are checked on arrival; this also covers ones
+  // that skip those checks, e.g. uploads shown in an optimistic message
+  const safeAttachments = attachments.filter((part) =>
+    isSafeAttachmentUrl(part.url)
+  );
+  const images = safeAttachments.filter(
+    (part): part is ImagePart => part.type === "image"
+  );
+  const files = safeAttachments.filter((part) => part.type === "file");
+
+  return (
+    <div
+      className={`flex flex-col mt-1 space-y-1 max-w-full ${
+        alignRight ? "items-end" : "items-start"
+      }`}
+    >
+      {images.length > 0 && (
+        <div
+          className={`flex flex-wrap gap-1 ${
+            alignRight ? "justify-end" : "justify-start"
+          }`}
+        >
+          {images.map((image) => (
+            <button
+              key={image.url}
+              onClick={() => setOpenImage(image)}
+              className="rounded-lg overflow-hidden border border-gray-200 hover:opacity-90"
+              title={image.name}
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={image.url}
+                alt={image.name}
+                loading="lazy"
+                className="h-32 w-32 object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+      {files.map((file) => (
+        <a
+          key={file.url}
+          href={file.url}
+          download={file.name}
+          className="flex items-center max-w-[16rem] bg-white border border-gray-200 rounded-lg py-2 px-3 text-xs text-black hover:bg-gray-50"
+          title={`Download ${file.name}`}
+        >
+          <FileText size={16} className="mr-2 flex-shrink-0 text-gray-500" />
+          <span className="min-w-0 flex-1">
+            <span className="block truncate font-medium">{file.name}</span>
+            <span className="block text-gray-500">
+              {formatFileSize(file.size)}
+            </span>
+          </span>
+          <Download size={14} className="ml-2 flex-shrink-0 text-gray-500" />
+        </a>
+      ))}
+      {openImage && (
+        <ImageLightbox image={openImage} onClose={() => setOpenImage(null)} />
+      )}
+    </div>
+  );
+}
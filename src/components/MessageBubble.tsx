@@ -0,0 +1,507 @@
+// src/components/MessageBubble.tsx
+"use client";
+
+import { memo, useMemo, useState } from "react";
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  CornerUpLeft,
+  Loader2,
+  MessageSquare,
+} from "lucide-react";
+import { Message } from "@/types";
+import ReactMarkdown, { Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { PluggableList } from "unified";
+import { remarkMentions } from "@/lib/mentions";
+import { isServerMessage } from "@/lib/messages";
+import { messageAttachments } from "@/lib/attachments";
+import { useMemberDirectory } from "@/context/MembersContext";
+import { MessageToolbar } from "./MessageToolbar";
+import { CodeBlock } from "./CodeBlock";
+import { MessageAttachments } from "./MessageAttachments";
+import { MemberAvatar } from "./MemberAvatar";
+import { MemberName } from "./MemberName";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+
+// Each handler resolves once the server has applied the change and rejects
+// with the reason it could not
+export interface MessageActionHandlers {
+  onEdit: (message: Message, text: string) => Promise<void>;
+  onDelete: (message: Message) => Promise<void>;
+  onRegenerate: (message: Message) => Promise<void>;
+  onSelectAlternative: (message: Message, index: number) => Promise<void>;
+  onToggleReaction: (message: Message, emoji: string) => Promise<void>;
+}
+
+interface MessageBubbleProps {
+  message: Message;
+  isUser: boolean;
+  isStreaming?: boolean;
+  // Id of the signed-in member, to mark their own reactions
+  userId?: string;
+  actions?: MessageActionHandlers;
+  // Message this one replies to, when it is loaded
+  replyToMessage?: Message;
+  replyCount?: number;
+  onReply?: (message: Message) => void;
+  onOpenThread?: (message: Message) => void;
+  onRetry?: (message: Message) => void;
+  onDiscard?: (message: Message) => void;
+}
+
+// Hide unterminated math and close open code fences so a half-received
+// message doesn't flicker between raw text and rendered KaTeX/code blocks.
+function stabilizePartialMarkdown(text: string): string {
+  let stable = text;
+
+  const fences = stable.match(/```/g)?.length ?? 0;
+  if (fences % 2 === 1) {
+    return `${stable}\n\`\`\``;
+  }
+
+  const displayMath = stable.match(/\$\$/g)?.length ?? 0;
+  if (displayMath % 2 === 1) {
+    stable = stable.slice(0, stable.lastIndexOf("$$"));
+  }
+
+  const inlineMath =
+    stable.replace(/\$\$/g, "").match(/(?<!\\)\$/g)?.length ?? 0;
+  if (inlineMath % 2 === 1) {
+    stable = stable.slice(0, stable.lastIndexOf("$"));
+  }
+
+  return stable;
+}
+
+const remarkPlugins: PluggableList = [remarkGfm, remarkMath];
+// Highlighting runs after KaTeX so math is never mistaken for code
+const rehypePlugins: PluggableList = [rehypeKatex, rehypeHighlight];
+
+const markdownComponents: Components = {
+  p: ({ children }) => (
+    <p className="my-1 first:mt-0 last:mb-0 whitespace-pre-wrap">{children}</p>
+  ),
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      className="text-blue-500 hover:underline"
+      target="_blank"
+      rel="noopener noreferrer"
+    >
+      {children}
+    </a>
+  ),
+  // Wide tables scroll inside the bubble instead of stretching it
+  table: ({ children }) => (
+    <div className="overflow-x-auto max-w-full my-2">
+      <table className="my-0">{children}</table>
+    </div>
+  ),
+  pre: ({ node, children }) => <CodeBlock node={node}>{children}</CodeBlock>,
+  // Only inline code reaches the page as-is; blocks are unwrapped by CodeBlock
+  code: ({ children }) => (
+    <code className="rounded px-1 py-0.5 bg-black/10 font-mono text-[0.9em] before:content-none after:content-none">
+      {children}
+    </code>
+  ),
+};
+
+interface MarkdownContentProps {
+  text: string;
+  isUser: boolean;
+  // Member ids to highlight where they are @mentioned
+  mentions?: string[];
+}
+
+// Markdown + KaTeX parsing is the expensive part of a bubble, so it only
+// re-runs when the text itself changes.
+export const MarkdownContent = memo(function MarkdownContent({
+  text,
+  isUser,
+  mentions,
+}: MarkdownContentProps): JSX.Element {
+  const { memberName } = useMemberDirectory();
+  const plugins = useMemo<PluggableList>(
+    () =>
+      mentions?.length
+        ? [
+            ...remarkPlugins,
+            [
+              remarkMentions,
+              {
+                memberIds: mentions,
+                memberName,
+                className: `rounded px-0.5 font-semibold ${
+                  isUser ? "bg-white/20" : "bg-blue-100 text-blue-800"
+                }`,
+              },
+            ],
+          ]
+        : remarkPlugins,
+    [mentions, memberName, isUser]
+  );
+
+  return (
+    <ReactMarkdown
+      className={`prose prose-sm min-w-0 max-w-full ${
+        isUser ? "prose-invert !text-white" : ""
+      } [&_.katex-display]:!overflow-x-auto [&_.katex-display]:!overflow-y-hidden [&_.katex]:max-w-full [&_.katex]:!overflow-x-auto [&_.katex]:!overflow-y-hidden [&_.contains-task-list]:pl-0 [&_.task-list-item]:list-none`}
+      remarkPlugins={plugins}
+      rehypePlugins={rehypePlugins}
+      components={markdownComponents}
+    >
+      {text}
+    </ReactMarkdown>
+  );
+});
+
+export const MessageBubble = memo(function MessageBubble({
+  message,
+  isUser,
+  isStreaming = false,
+  userId,
+  actions,
+  replyToMessage,
+  replyCount = 0,
+  onReply,
+  onOpenThread,
+  onRetry,
+  onDiscard,
+}: MessageBubbleProps): JSX.Element {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const { memberName } = useMemberDirectory();
+  const bubbleClass = isUser
+    ? "bg-[#1b2e5c] text-white"
+    : "bg-gray-200 text-black";
+  const text = isStreaming
+    ? stabilizePartialMarkdown(message.content.text)
+    : message.content.text;
+  const attachments = messageAttachments(message);
+  // Attachment-only messages have no text bubble
+  const showTextBubble = isStreaming || !!text || attachments.length === 0;
+  const canAct = !!actions && !isStreaming && isServerMessage(message);
+  const canReply = !!onReply && !isStreaming && isServerMessage(message);
+  const reactions = Object.entries(message.reactions ?? {}).filter(
+    ([, memberIds]) => memberIds.length > 0
+  );
+  const alternativeCount = message.alternatives?.length ?? 0;
+  const selectedAlternative = message.selectedAlternative ?? 0;
+
+  const runAction = async (label: string, action: () => Promise<void>) => {
+    setPendingAction(label);
+    setActionError(null);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(`${label} message failed:`, error);
+      setActionError(
+        error instanceof Error ? error.message : "Something went wrong"
+      );
+      return false;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(message.content.text);
+    setIsEditing(true);
+  };
+
+  const saveEdit = async () => {
+    const edited = draft.trim();
+    if (!actions || !edited || edited === message.content.text) {
+      setIsEditing(false);
+      return;
+    }
+    if (await runAction("Saving", () => actions.onEdit(message, edited))) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleEditKeyDown = (
+    event: React.KeyboardEvent<HTMLTextAreaElement>
+  ) => {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      saveEdit();
+    } else if (event.key === "Escape") {
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <div
+      className={`group relative flex mb-4 ${
+        isUser ? "justify-end" : "justify-start"
+      }`}
+    >
+      {(canAct || canReply) && !isEditing && (
+        <MessageToolbar
+          text={message.content.text}
+          alignRight={isUser}
+          onReply={canReply ? () => onReply(message) : undefined}
+          onReact={
+            canAct
+              ? (emoji) =>
+                  runAction("Reacting", () =>
+                    actions.onToggleReaction(message, emoji)
+                  )
+              : undefined
+          }
+          onRegenerate={
+            canAct && !isUser && message.senderId
+              ? () =>
+                  runAction("Regenerating", () => actions.onRegenerate(message))
+              : undefined
+          }
+          onEdit={canAct && isUser ? startEditing : undefined}
+          onDelete={
+            canAct && isUser
+              ? () => runAction("Deleting", () => actions.onDelete(message))
+              : undefined
+          }
+        />
+      )}
+      <div
+        className={`flex items-end max-w-[70%] ${
+          isUser ? "flex-row-reverse" : "flex-row"
+        }`}
+      >
+        {!isUser && message.senderId && (
+          <MemberAvatar memberId={message.senderId} />
+        )}
+        <div
+          className={`flex flex-col min-w-0 ${
+            isUser ? "items-end" : "items-start ml-2"
+          }`}
+        >
+          {!isUser && message.senderId && (
+            <MemberName
+              memberId={message.senderId}
+              colored
+              className="text-xs font-medium mb-1"
+            />
+          )}
+          {message.replyToId && (
+            <button
+              onClick={() => replyToMessage && onOpenThread?.(replyToMessage)}
+              disabled={!replyToMessage || !onOpenThread}
+              className="mb-1 max-w-full flex items-start text-left text-xs text-gray-600 border-l-2 border-gray-400 pl-2 hover:text-gray-900 disabled:hover:text-gray-600"
+              title={replyToMessage ? "Open thread" : undefined}
+            >
+              <CornerUpLeft size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+              <span className="line-clamp-2">
+                {replyToMessage ? (
+                  <>
+                    <span className="font-medium">
+                      {replyToMessage.senderId
+                        ? memberName(replyToMessage.senderId)
+                        : "System"}
+                      :
+                    </span>{" "}
+                    {replyToMessage.content.text}
+                  </>
+                ) : (
+                  "Reply to an earlier message"
+                )}
+              </span>
+            </button>
+          )}
+          {isEditing ? (
+            <div className="w-full min-w-[16rem]">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                autoFocus
+                rows={Math.min(8, draft.split("\n").length + 1)}
+                className="w-full border rounded-lg py-2 px-3 text-sm text-black"
+              />
+              <div className="flex justify-end space-x-2 text-xs mt-1">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="text-gray-500 hover:underline"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={saveEdit}
+                  disabled={pendingAction !== null}
+                  className="font-medium text-[#1b2e5c] hover:underline disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            showTextBubble && (
+              <div
+                className={`py-1 px-3 rounded-2xl ${bubbleClass} ${
+                  message.status === "pending" ? "opacity-60" : ""
+                } break-words min-h-8 flex items-center min-w-0 max-w-full overflow-x-auto`}
+              >
+                <MarkdownContent
+                  text={text}
+                  isUser={isUser}
+                  mentions={message.mentions}
+                />
+                {isStreaming && (
+                  <span
+                    className="inline-block w-1.5 h-4 ml-1 bg-current animate-pulse flex-shrink-0"
+                    aria-hidden="true"
+                  />
+                )}
+              </div>
+            )
+          )}
+          {attachments.length > 0 && (
+            <MessageAttachments attachments={attachments} alignRight={isUser} />
+          )}
+          {(message.editedAt || alternativeCount > 1 || pendingAction) && (
+            <div className="flex items-center text-xs text-gray-500 mt-1 space-x-2">
+              {alternativeCount > 1 && actions && (
+                <span className="flex items-center">
+                  <button
+                    onClick={() =>
+                      runAction("Switching", () =>
+                        actions.onSelectAlternative(
+                          message,
+                          selectedAlternative - 1
+                        )
+                      )
+                    }
+                    disabled={selectedAlternative === 0 || !!pendingAction}
+                    className="hover:text-gray-900 disabled:opacity-30"
+                    title="Previous answer"
+                  >
+                    <ChevronLeft size={12} />
+                  </button>
+                  {selectedAlternative + 1}/{alternativeCount}
+                  <button
+                    onClick={() =>
+                      runAction("Switching", () =>
+                        actions.onSelectAlternative(
+                          message,
+                          selectedAlternative + 1
+                        )
+                      )
+                    }
+                    disabled={
+                      selectedAlternative === alternativeCount - 1 ||
+                      !!pendingAction
+                    }
+                    className="hover:text-gray-900 disabled:opacity-30"
+                    title="Next answer"
+                  >
+                    <ChevronRight size={12} />
+                  </button>
+                </span>
+              )}
+              {message.editedAt && <span>(edited)</span>}
+              {pendingAction && (
+                <span className="flex items-center">
+                  <Loader2 size={12} className="animate-spin mr-1" />
+                  {pendingAction}...
+                </span>
+              )}
+            </div>
+          )}
+          {reactions.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {reactions.map(([emoji, memberIds]) => {
+                const hasReacted = !!userId && memberIds.includes(userId);
+                return (
+                  <button
+                    key={emoji}
+                    onClick={() =>
+                      actions &&
+                      runAction("Reacting", () =>
+                        actions.onToggleReaction(message, emoji)
+                      )
+                    }
+                    disabled={!canAct}
+                    className={`px-1.5 py-0.5 rounded-full text-xs border flex items-center ${
+                      hasReacted
+                        ? "bg-blue-50 border-blue-300"
+                        : "bg-white border-gray-200"
+                    }`}
+                    title={memberIds.map(memberName).join(", ")}
+                  >
+                    <span className="mr-1">{emoji}</span>
+                    {memberIds.length}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {replyCount > 0 && onOpenThread && (
+            <button
+              onClick={() => onOpenThread(message)}
+              className="flex items-center text-xs text-blue-600 hover:underline mt-1"
+            >
+              <MessageSquare size={12} className="mr-1" />
+              {replyCount} {replyCount === 1 ? "reply" : "replies"}
+            </button>
+          )}
+          {actionError && (
+            <span className="text-xs text-red-600 mt-1">{actionError}</span>
+          )}
+          {message.status === "pending" && (
+            <span className="flex items-center text-xs text-gray-500 mt-1">
+              <Clock size={12} className="mr-1" />
+              Sending...
+            </span>
+          )}
+          {message.status === "failed" && (
+            <div className="flex items-center text-xs text-red-600 mt-1 space-x-2">
+              <span className="flex items-center">
+                <AlertCircle size={12} className="mr-1" />
+                Not delivered
+              </span>
+              {onRetry && (
+                <button
+                  onClick={() => onRetry(message)}
+                  className="font-medium hover:underline"
+                >
+                  Retry
+                </button>
+              )}
+              {onDiscard && (
+                <button
+                  onClick={() => onDiscard(message)}
+                  className="text-gray-500 hover:underline"
+                >
+                  Discard
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+interface SystemMessageProps {
+  message: Message;
+}
+
+export function SystemMessage({ message }: SystemMessageProps): JSX.Element {
+  return (
+    <div className="flex justify-center my-2">
+      <span className="text-xs text-gray-500">{message.content.text}</span>
+    </div>
+  );
+}
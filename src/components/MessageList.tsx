@@ -0,0 +1,218 @@
+// src/components/MessageList.tsx
+"use client";
+
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { Loader2 } from "lucide-react";
+import { Message, StreamingMessage } from "@/types";
+import {
+  MessageActionHandlers,
+  MessageBubble,
+  SystemMessage,
+} from "./MessageBubble";
+
+// How close to the top (in px) the user must scroll to fetch older messages
+const LOAD_OLDER_THRESHOLD = 200;
+// How close to the bottom still counts as "following" the conversation
+const STICK_TO_BOTTOM_THRESHOLD = 80;
+// How long a message jumped to from search stays highlighted
+const FLASH_DURATION_MS = 2000;
+
+interface MessageListProps {
+  messages: (Message | StreamingMessage)[];
+  userId: string;
+  hasMore: boolean;
+  isLoadingOlder: boolean;
+  onLoadOlder?: () => void;
+  // Message to scroll to and flash once it is in the list
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
+  onRetryMessage?: (message: Message) => void;
+  onDiscardMessage?: (message: Message) => void;
+  messageActions?: MessageActionHandlers;
+  onReplyToMessage?: (message: Message) => void;
+  onOpenThread?: (message: Message) => void;
+}
+
+function isStreaming(message: Message | StreamingMessage): boolean {
+  return "isStreaming" in message && message.isStreaming;
+}
+
+export function MessageList({
+  messages,
+  userId,
+  hasMore,
+  isLoadingOlder,
+  onLoadOlder,
+  focusMessageId = null,
+  onFocusHandled,
+  onRetryMessage,
+  onDiscardMessage,
+  messageActions,
+  onReplyToMessage,
+  onOpenThread,
+}: MessageListProps): JSX.Element {
+  const [flashId, setFlashId] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const firstIdRef = useRef<string | undefined>(undefined);
+  const lastIdRef = useRef<string | undefined>(undefined);
+  const scrollHeightRef = useRef(0);
+  const isAtBottomRef = useRef(true);
+
+  // Quoted parents and reply counts only cover the loaded history
+  const { messagesById, replyCounts } = useMemo(() => {
+    const byId = new Map<string, Message>();
+    const counts = new Map<string, number>();
+    for (const message of messages) {
+      byId.set(message.id, message);
+      if (message.replyToId) {
+        counts.set(message.replyToId, (counts.get(message.replyToId) ?? 0) + 1);
+      }
+    }
+    return { messagesById: byId, replyCounts: counts };
+  }, [messages]);
+
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollRef.current,
+    getItemKey: (index) => messages[index].id,
+    estimateSize: () => 72,
+    overscan: 8,
+    paddingStart: 16,
+    paddingEnd: 16,
+  });
+
+  // Jump to a message (e.g. a search hit) once the page containing it loads
+  useLayoutEffect(() => {
+    if (!focusMessageId) return;
+    const focusIndex = messages.findIndex(
+      (message) => message.id === focusMessageId
+    );
+    if (focusIndex === -1) return;
+
+    virtualizer.scrollToIndex(focusIndex, { align: "center" });
+    isAtBottomRef.current = false;
+    setFlashId(focusMessageId);
+    onFocusHandled?.();
+  }, [messages, focusMessageId, virtualizer, onFocusHandled]);
+
+  // Runs after every render: keep the viewport anchored when older pages are
+  // prepended, and scroll to the bottom when a new message arrives.
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const firstId = messages[0]?.id;
+    const lastId = messages[messages.length - 1]?.id;
+    const prepended =
+      firstIdRef.current !== undefined &&
+      firstId !== firstIdRef.current &&
+      lastId === lastIdRef.current;
+
+    if (focusMessageId) {
+      // Jumping to a message takes precedence over following the bottom
+    } else if (prepended) {
+      element.scrollTop += element.scrollHeight - scrollHeightRef.current;
+    } else if (
+      messages.length > 0 &&
+      (lastId !== lastIdRef.current || isAtBottomRef.current)
+    ) {
+      virtualizer.scrollToIndex(messages.length - 1, { align: "end" });
+    }
+
+    firstIdRef.current = firstId;
+    lastIdRef.current = lastId;
+    scrollHeightRef.current = element.scrollHeight;
+  });
+
+  // A page too short to fill the viewport can't be scrolled, so the scroll
+  // handler would never ask for the next one; keep fetching until it can
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || !hasMore || isLoadingOlder || !onLoadOlder) return;
+    if (element.scrollHeight <= element.clientHeight) {
+      onLoadOlder();
+    }
+  }, [messages, hasMore, isLoadingOlder, onLoadOlder]);
+
+  useEffect(() => {
+    if (!flashId) return;
+    const timeout = setTimeout(() => setFlashId(null), FLASH_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [flashId]);
+
+  const handleScroll = () => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    isAtBottomRef.current =
+      element.scrollHeight - element.scrollTop - element.clientHeight <
+      STICK_TO_BOTTOM_THRESHOLD;
+
+    if (
+      element.scrollTop < LOAD_OLDER_THRESHOLD &&
+      hasMore &&
+      !isLoadingOlder &&
+      onLoadOlder
+    ) {
+      onLoadOlder();
+    }
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className="flex-1 overflow-y-auto px-4 bg-gray-100 relative"
+    >
+      {isLoadingOlder && (
+        <div className="sticky top-0 h-0 flex justify-center z-10">
+          <Loader2 className="animate-spin text-gray-500 mt-2" size={20} />
+        </div>
+      )}
+      <div className="max-w-3xl mx-auto">
+        <div
+          className="relative w-full"
+          style={{ height: virtualizer.getTotalSize() }}
+        >
+          {virtualizer.getVirtualItems().map((virtualItem) => {
+            const message = messages[virtualItem.index];
+            return (
+              <div
+                key={virtualItem.key}
+                data-index={virtualItem.index}
+                ref={virtualizer.measureElement}
+                className={`absolute top-0 left-0 w-full rounded-lg ${
+                  message.id === flashId ? "animate-flash" : ""
+                }`}
+                style={{ transform: `translateY(${virtualItem.start}px)` }}
+              >
+                {message.type === "SYSTEM" ? (
+                  <SystemMessage message={message} />
+                ) : (
+                  <MessageBubble
+                    message={message}
+                    isUser={message.senderId === userId}
+                    isStreaming={isStreaming(message)}
+                    userId={userId}
+                    actions={messageActions}
+                    replyToMessage={
+                      message.replyToId
+                        ? messagesById.get(message.replyToId)
+                        : undefined
+                    }
+                    replyCount={replyCounts.get(message.id)}
+                    onReply={onReplyToMessage}
+                    onOpenThread={onOpenThread}
+                    onRetry={onRetryMessage}
+                    onDiscard={onDiscardMessage}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+// src/components/MessageToolbar.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Check,
+  Copy,
+  CornerUpLeft,
+  Pencil,
+  RefreshCw,
+  SmilePlus,
+  Trash2,
+} from "lucide-react";
+
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "🤔", "👀"];
+
+const COPIED_FEEDBACK_MS = 1500;
+
+interface MessageToolbarProps {
+  text: string;
+  alignRight: boolean;
+  onReply?: () => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onRegenerate?: () => void;
+  onReact?: (emoji: string) => void;
+}
+
+const buttonClass =
+  "p-1 rounded text-gray-600 hover:bg-gray-100 hover:text-gray-900";
+
+export function MessageToolbar({
+  text,
+  alignRight,
+  onReply,
+  onEdit,
+  onDelete,
+  onRegenerate,
+  onReact,
+}: MessageToolbarProps): JSX.Element {
+  const [isCopied, setIsCopied] = useState(false);
+  const [isPickingEmoji, setIsPickingEmoji] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  useEffect(() => {
+    if (!isCopied) return;
+    const timeout = setTimeout(() => setIsCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timeout);
+  }, [isCopied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setIsCopied(true);
+    } catch (error) {
+      console.error("Failed to copy message:", error);
+    }
+  };
+
+  return (
+    <div
+      className={`absolute -top-3 ${
+        alignRight ? "right-2" : "left-10"
+      } z-20 flex items-center bg-white border rounded-md shadow-sm px-0.5 invisible group-hover:visible`}
+      onMouseLeave={() => {
+        setIsPickingEmoji(false);
+        setIsConfirmingDelete(false);
+      }}
+    >
+      {isConfirmingDelete && onDelete ? (
+        <div className="flex items-center text-xs px-1 space-x-2">
+          <span>Delete message?</span>
+          <button
+            onClick={onDelete}
+            className="font-medium text-red-600 hover:underline"
+          >
+            Delete
+          </button>
+          <button
+            onClick={() => setIsConfirmingDelete(false)}
+            className="text-gray-500 hover:underline"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : isPickingEmoji && onReact ? (
+        <div className="flex items-center">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => {
+                setIsPickingEmoji(false);
+                onReact(emoji);
+              }}
+              className="px-1 py-0.5 rounded hover:bg-gray-100"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <>
+          {onReply && (
+            <button onClick={onReply} className={buttonClass} title="Reply">
+              <CornerUpLeft size={14} />
+            </button>
+          )}
+          <button onClick={handleCopy} className={buttonClass} title="Copy">
+            {isCopied ? <Check size={14} /> : <Copy size={14} />}
+          </button>
+          {onReact && (
+            <button
+              onClick={() => setIsPickingEmoji(true)}
+              className={buttonClass}
+              title="React"
+            >
+              <SmilePlus size={14} />
+            </button>
+          )}
+          {onRegenerate && (
+            <button
+              onClick={onRegenerate}
+              className={buttonClass}
+              title="Regenerate"
+            >
+              <RefreshCw size={14} />
+            </button>
+          )}
+          {onEdit && (
+            <button onClick={onEdit} className={buttonClass} title="Edit">
+              <Pencil size={14} />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={() => setIsConfirmingDelete(true)}
+              className={buttonClass}
+              title="Delete"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+// src/components/NewChatDialog.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Chat } from "@/types";
+import { chatApi } from "@/api/chat";
+import { useCurrentUser } from "@/context/SessionContext";
+import { useMembers } from "@/hooks/useMembers";
+import { MemberPicker } from "./MemberPicker";
+import { MarkdownContent } from "./MessageBubble";
+
+interface NewChatDialogProps {
+  onClose: () => void;
+  onCreated: (chat: Chat) => void;
+}
+
+export function NewChatDialog({
+  onClose,
+  onCreated,
+}: NewChatDialogProps): JSX.Element {
+  const currentUser = useCurrentUser();
+  const {
+    members,
+    isLoading: isMembersLoading,
+    error: membersError,
+  } = useMembers();
+  const [name, setName] = useState("");
+  const [topic, setTopic] = useState("");
+  const [context, setContext] = useState("");
+  const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+  const [showPreview, setShowPreview] = useState(false);
+  const [isCreatingChat, setIsCreatingChat] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (membersError) {
+      setError(membersError);
+    }
+  }, [membersError]);
+
+  const selectedNames = selectedMembers.map(
+    (memberId) =>
+      members.find((member) => member.id === memberId)?.name ?? memberId
+  );
+  const defaultName = `Chat with ${selectedNames.join(", ")}`;
+
+  const handleMemberToggle = (memberId: string) => {
+    setSelectedMembers((prev) =>
+      prev.includes(memberId)
+        ? prev.filter((id) => id !== memberId)
+        : [...prev, memberId]
+    );
+  };
+
+  const handleCreateChat = async () => {
+    if (selectedMembers.length === 0) {
+      setError("Please select at least one member");
+      return;
+    }
+
+    setIsCreatingChat(true);
+    setError(null);
+    try {
+      const newChat = await chatApi.createChat({
+        memberIds: [...selectedMembers, currentUser.id],
+        name: name.trim() || defaultName,
+        topic: topic.trim() || undefined,
+        context: context.trim() || undefined,
+        creator: currentUser.id,
+      });
+
+      onCreated(newChat);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create chat");
+    } finally {
+      setIsCreatingChat(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto text-gray-900">
+        <h3 className="text-lg font-semibold mb-4">New Chat</h3>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        {showPreview ? (
+          <div className="space-y-4">
+            <div className="text-sm text-gray-600 space-y-1">
+              <div>
+                <span className="font-medium">Name:</span>{" "}
+                {name.trim() || defaultName}
+              </div>
+              {topic.trim() && (
+                <div>
+                  <span className="font-medium">Topic:</span> {topic.trim()}
+                </div>
+              )}
+              <div>
+                <span className="font-medium">Participants:</span>{" "}
+                {[...selectedNames, currentUser.name].join(", ")}
+              </div>
+            </div>
+            <div>
+              <div className="block text-sm font-medium text-gray-700 mb-1">
+                Opening context
+              </div>
+              <div className="p-3 bg-gray-100 rounded-md min-h-[3rem]">
+                {context.trim() ? (
+                  <MarkdownContent text={context.trim()} isUser={false} />
+                ) : (
+                  <span className="text-sm text-gray-500">
+                    No context: the agents will start from your first message.
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Chat Name
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={defaultName}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Topic
+              </label>
+              <input
+                type="text"
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Context
+              </label>
+              <textarea
+                value={context}
+                onChange={(e) => setContext(e.target.value)}
+                rows={5}
+                placeholder="Brief the agents: the setting, their goal, any ground rules... Markdown and LaTeX are supported."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Members
+              </label>
+              <div className="border rounded-md max-h-60 overflow-y-auto">
+                <MemberPicker
+                  members={members}
+                  selectedIds={selectedMembers}
+                  onToggle={handleMemberToggle}
+                  isLoading={isMembersLoading}
+                  showDescriptions
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-3">
+          {!isCreatingChat && (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={() => setShowPreview((prev) => !prev)}
+            disabled={isCreatingChat}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium disabled:opacity-50"
+          >
+            {showPreview ? "Back to edit" : "Preview"}
+          </button>
+          <button
+            onClick={handleCreateChat}
+            disabled={isCreatingChat || selectedMembers.length === 0}
+            className={`px-4 py-2 text-sm font-medium rounded-md flex items-center text-white ${
+              isCreatingChat || selectedMembers.length === 0
+                ? "bg-gray-400 cursor-not-allowed"
+                : "bg-[#1b2e5c] hover:bg-blue-600"
+            }`}
+          >
+            {isCreatingChat ? (
+              <>
+                <Loader2 className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                Creating...
+              </>
+            ) : (
+              "Create"
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
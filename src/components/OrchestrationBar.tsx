@@ -0,0 +1,188 @@
+// src/components/OrchestrationBar.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Pause, Play } from "lucide-react";
+import { Member, OrchestrationSettings, SpeakerSelection } from "@/types";
+import { OrchestrationControls } from "@/hooks/useOrchestration";
+
+interface OrchestrationBarProps {
+  orchestration: OrchestrationControls;
+  agents: Member[];
+}
+
+type LimitKey = "maxTurnsPerRound" | "maxTokensPerRound";
+
+const SPEAKER_SELECTIONS: { value: SpeakerSelection; label: string }[] = [
+  { value: "round-robin", label: "Round-robin" },
+  { value: "random", label: "Random" },
+  { value: "manual", label: "Manual" },
+];
+
+function LimitInput({
+  label,
+  value,
+  used,
+  disabled,
+  onCommit,
+}: {
+  label: string;
+  value: number | null;
+  used: number;
+  disabled: boolean;
+  onCommit: (value: number | null) => void;
+}) {
+  const [draft, setDraft] = useState(value?.toString() ?? "");
+
+  useEffect(() => {
+    setDraft(value?.toString() ?? "");
+  }, [value]);
+
+  // Blank means no limit; anything unparsable falls back to the saved value
+  const commit = () => {
+    const trimmed = draft.trim();
+    const parsed = trimmed ? Number.parseInt(trimmed, 10) : null;
+    if (parsed !== null && (Number.isNaN(parsed) || parsed < 1)) {
+      setDraft(value?.toString() ?? "");
+      return;
+    }
+    if (parsed !== value) {
+      onCommit(parsed);
+    }
+  };
+
+  return (
+    <label className="flex items-center space-x-1">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={1}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === "Enter" && commit()}
+        disabled={disabled}
+        placeholder="∞"
+        className="w-16 px-1 py-0.5 border rounded-md"
+      />
+      <span className="text-gray-500">({used} used)</span>
+    </label>
+  );
+}
+
+export function OrchestrationBar({
+  orchestration,
+  agents,
+}: OrchestrationBarProps): JSX.Element | null {
+  const { state, isUpdating, error, pause, resume, update } = orchestration;
+
+  if (!state) {
+    return error ? (
+      <div className="bg-gray-100 px-4 pb-2">
+        <p className="max-w-3xl mx-auto text-xs text-red-600">{error}</p>
+      </div>
+    ) : null;
+  }
+
+  const handleLimitChange = (key: LimitKey, value: number | null) =>
+    update({ [key]: value } as Partial<OrchestrationSettings>);
+
+  return (
+    <div className="bg-gray-100 px-4 pb-2">
+      <div className="max-w-3xl mx-auto flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-700">
+        <button
+          onClick={state.isPaused ? resume : pause}
+          disabled={isUpdating}
+          className="px-2 py-1 rounded-md bg-white border flex items-center hover:bg-gray-50 disabled:opacity-50"
+        >
+          {state.isPaused ? (
+            <Play size={12} className="mr-1" />
+          ) : (
+            <Pause size={12} className="mr-1" />
+          )}
+          {state.isPaused ? "Resume agents" : "Pause agents"}
+        </button>
+
+        <label className="flex items-center space-x-1">
+          <span>Next speaker</span>
+          <select
+            value={state.speakerSelection}
+            onChange={(e) =>
+              update({ speakerSelection: e.target.value as SpeakerSelection })
+            }
+            disabled={isUpdating}
+            className="px-1 py-0.5 border rounded-md"
+          >
+            {SPEAKER_SELECTIONS.map((selection) => (
+              <option key={selection.value} value={selection.value}>
+                {selection.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {state.speakerSelection === "manual" && (
+          <select
+            value={state.nextSpeakerId ?? ""}
+            onChange={(e) => update({ nextSpeakerId: e.target.value || null })}
+            disabled={isUpdating}
+            className="px-1 py-0.5 border rounded-md"
+            title="Member who speaks next"
+          >
+            <option value="">Wait for a pick</option>
+            {agents.map((agent) => (
+              <option key={agent.id} value={agent.id}>
+                {agent.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <LimitInput
+          label="Turns/round"
+          value={state.maxTurnsPerRound}
+          used={state.turnsThisRound}
+          disabled={isUpdating}
+          onCommit={(value) => handleLimitChange("maxTurnsPerRound", value)}
+        />
+        <LimitInput
+          label="Tokens/round"
+          value={state.maxTokensPerRound}
+          used={state.tokensThisRound}
+          disabled={isUpdating}
+          onCommit={(value) => handleLimitChange("maxTokensPerRound", value)}
+        />
+
+        {isUpdating && <Loader2 size={12} className="animate-spin" />}
+        {error && <span className="text-red-600">{error}</span>}
+      </div>
+    </div>
+  );
+}
+
+// Short label for the chat header, e.g. "Paused" or "Round-robin · 3/10 turns"
+export function describeOrchestration(
+  state: OrchestrationControls["state"]
+): { label: string; isActive: boolean } | null {
+  if (!state) return null;
+  if (state.isPaused) return { label: "Paused", isActive: false };
+
+  const turnLimitReached =
+    state.maxTurnsPerRound !== null &&
+    state.turnsThisRound >= state.maxTurnsPerRound;
+  const tokenLimitReached =
+    state.maxTokensPerRound !== null &&
+    state.tokensThisRound >= state.maxTokensPerRound;
+  if (turnLimitReached || tokenLimitReached) {
+    return { label: "Round limit reached", isActive: false };
+  }
+
+  const selection =
+    SPEAKER_SELECTIONS.find(({ value }) => value === state.speakerSelection)
+      ?.label ?? state.speakerSelection;
+  const turns =
+    state.maxTurnsPerRound !== null
+      ? ` · ${state.turnsThisRound}/${state.maxTurnsPerRound} turns`
+      : "";
+  return { label: `${selection}${turns}`, isActive: true };
+}
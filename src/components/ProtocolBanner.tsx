@@ -0,0 +1,54 @@
+// src/components/ProtocolBanner.tsx
+"use client";
+
+import { AlertTriangle, X } from "lucide-react";
+import { ProtocolIssue } from "@/lib/protocol";
+
+interface ProtocolBannerProps {
+  issue: ProtocolIssue;
+  onDismiss: () => void;
+}
+
+// Tells the user when the server can't be understood. A version mismatch
+// stays up since nothing the client shows can be trusted; a single bad
+// event can be dismissed.
+export function ProtocolBanner({
+  issue,
+  onDismiss,
+}: ProtocolBannerProps): JSX.Element {
+  const isMismatch = issue.kind === "version-mismatch";
+
+  return (
+    <div
+      role="alert"
+      className={`fixed top-3 left-1/2 -translate-x-1/2 z-50 max-w-lg flex items-start p-3 border rounded shadow-md text-sm ${
+        isMismatch
+          ? "bg-red-100 border-red-400 text-red-700"
+          : "bg-yellow-100 border-yellow-400 text-yellow-800"
+      }`}
+    >
+      <AlertTriangle size={16} className="mt-0.5 mr-2 flex-shrink-0" />
+      <div className="min-w-0">
+        <div className="font-medium">
+          {isMismatch
+            ? "This app is out of date with the server"
+            : "Some updates from the server could not be shown"}
+        </div>
+        <div className="mt-0.5 break-words">
+          {isMismatch
+            ? `${issue.message} Reload the page to pick up the latest version.`
+            : `Malformed data in a ${issue.event} event was ignored. Reload the page if something looks out of date.`}
+        </div>
+      </div>
+      {!isMismatch && (
+        <button
+          onClick={onDismiss}
+          className="ml-2 flex-shrink-0 hover:opacity-70"
+          aria-label="Dismiss"
+        >
+          <X size={16} />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+// src/components/SearchResults.tsx
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { Chat, ChatSearchResult } from "@/types";
+import { buildSnippet, highlightParts } from "@/lib/search";
+import { useMemberDirectory } from "@/context/MembersContext";
+
+interface SearchResultsProps {
+  query: string;
+  results: ChatSearchResult[];
+  isSearching: boolean;
+  error: string | null;
+  getChatDisplayName: (chat: Chat) => string;
+  onOpen: (chat: Chat, messageId?: string) => void;
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {highlightParts(text, query).map((part, index) =>
+        part.isMatch ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function SearchResults({
+  query,
+  results,
+  isSearching,
+  error,
+  getChatDisplayName,
+  onOpen,
+}: SearchResultsProps): JSX.Element {
+  const { memberName } = useMemberDirectory();
+
+  if (error) {
+    return <p className="text-red-500 text-xs mx-2">{error}</p>;
+  }
+
+  if (isSearching && results.length === 0) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="animate-spin text-gray-500" size={20} />
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return <p className="text-sm text-gray-500 mx-2">No matches.</p>;
+  }
+
+  return (
+    <div className={isSearching ? "opacity-60" : ""}>
+      {results.map(({ chat, matchedFields, messages }) => (
+        <div key={chat.id} className="mx-2 mb-3">
+          <button
+            onClick={() => onOpen(chat)}
+            className="w-full text-left p-2 rounded-lg hover:bg-gray-100"
+          >
+            <h3 className="font-semibold text-sm truncate">
+              <Highlighted text={getChatDisplayName(chat)} query={query} />
+            </h3>
+            {matchedFields
+              .filter((field) => field !== "name")
+              .map((field) => (
+                <p key={field} className="text-xs text-gray-600 mt-0.5">
+                  <span className="font-medium capitalize">{field}: </span>
+                  <Highlighted
+                    text={buildSnippet(chat[field] ?? "", query)}
+                    query={query}
+                  />
+                </p>
+              ))}
+          </button>
+          {messages.map((message) => (
+            <button
+              key={message.id}
+              onClick={() => onOpen(chat, message.id)}
+              className="w-full text-left pl-4 pr-2 py-1.5 rounded-lg hover:bg-gray-100"
+            >
+              <p className="text-xs text-gray-500">
+                {message.senderId ? memberName(message.senderId) : "system"} ·{" "}
+                {new Date(message.createdAt).toLocaleDateString()}
+              </p>
+              <p className="text-xs text-gray-700">
+                <Highlighted
+                  text={buildSnippet(message.content.text, query)}
+                  query={query}
+                />
+              </p>
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+// src/components/SessionGate.tsx
+"use client";
+
+import { useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Loader } from "lucide-react";
+import { useSession } from "@/context/SessionContext";
+
+// Routes that can be visited without signing in
+const PUBLIC_PATHS = ["/login", "/logout"];
+
+export function SessionGate({
+  children,
+}: {
+  children: React.ReactNode;
+}): JSX.Element {
+  const { user, isLoading } = useSession();
+  const pathname = usePathname();
+  const router = useRouter();
+  const isPublic = PUBLIC_PATHS.includes(pathname);
+
+  useEffect(() => {
+    if (!isLoading && !user && !isPublic) {
+      router.replace("/login");
+    }
+  }, [isLoading, user, isPublic, router]);
+
+  if (isPublic || user) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="flex h-screen items-center justify-center">
+      <Loader className="h-8 w-8 animate-spin text-[#1b2e5c]" />
+    </div>
+  );
+}
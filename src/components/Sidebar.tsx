@@ -1,102 +1,162 @@
 // src/components/Sidebar.tsx
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { Chat, Member } from "@/types";
-import { Plus, Loader, Loader2, PersonStanding } from "lucide-react";
+import { useState } from "react";
+import { Chat } from "@/types";
+import {
+  ChevronDown,
+  ChevronRight,
+  Plus,
+  Loader,
+  Loader2,
+  LogOut,
+  PersonStanding,
+  Search,
+  SlidersHorizontal,
+  Upload,
+  X,
+} from "lucide-react";
 import { chatApi } from "@/api/chat";
+import { useCurrentUser } from "@/context/SessionContext";
+import { NewChatDialog } from "./NewChatDialog";
+import { ImportTranscriptDialog } from "./ImportTranscriptDialog";
+import { ChatListItem } from "./ChatListItem";
+import { SearchResults } from "./SearchResults";
+import { useChatSearch } from "@/hooks/useChatSearch";
+import { useMembers } from "@/hooks/useMembers";
+import { useMemberDirectory } from "@/context/MembersContext";
+import { chatStore, useChatStore } from "@/store/chatStore";
+import {
+  selectChats,
+  selectIsLoadingChats,
+  selectSelectedChat,
+} from "@/store/selectors";
 import { Orbitron } from "next/font/google";
 import Link from "next/link";
 
 const orbitron = Orbitron({ subsets: ["latin"] });
 
 interface SidebarProps {
-  chats: Chat[];
-  selectedChat: Chat | null;
-  onChatSelect: (chat: Chat) => void;
+  onChatSelect: (chat: Chat, focusMessageId?: string) => void;
   onNewChat: (chat: Chat) => void;
-  isLoading?: boolean;
+  // Chats where a member is typing or thinking
+  activeChatIds?: Set<string>;
 }
 
 function getLatestMessage(chat: Chat): string {
   return chat.latestMessage?.content.text ?? "";
 }
 
-function getChatDisplayName(chat: Chat): string {
-  return chat.name ?? `Chat with ${chat.memberIds.join(", ")}`;
-}
-
 export function Sidebar({
-  chats,
-  selectedChat,
   onChatSelect,
   onNewChat,
-  isLoading = false,
+  activeChatIds,
 }: SidebarProps): JSX.Element {
-  const [isDropdownOpen, setIsDropdownOpen] = useState(false);
-  const [members, setMembers] = useState<Member[]>([]);
-  const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+  const chats = useChatStore(selectChats);
+  const selectedChat = useChatStore(selectSelectedChat);
+  const isLoading = useChatStore(selectIsLoadingChats);
+  const [isNewChatOpen, setIsNewChatOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [chatToDelete, setChatToDelete] = useState<Chat | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isMembersLoading, setIsMembersLoading] = useState<boolean>(false);
-  const [isCreatingChat, setIsCreatingChat] = useState<boolean>(false);
-  const userId = "user";
+  const [searchQuery, setSearchQuery] = useState("");
+  const [showFilters, setShowFilters] = useState(false);
+  const [senderFilter, setSenderFilter] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const currentUser = useCurrentUser();
+  const { members } = useMembers();
+  const { memberName } = useMemberDirectory();
+
+  const getChatDisplayName = (chat: Chat): string =>
+    chat.name ?? `Chat with ${chat.memberIds.map(memberName).join(", ")}`;
+
+  const search = useChatSearch({
+    query: searchQuery,
+    senderId: senderFilter || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  });
+  const hasFilters = !!(senderFilter || fromDate || toDate);
+
+  // Pinned chats first; otherwise keep the order the server sent
+  const activeChats = chats
+    .filter((chat) => !chat.isArchived)
+    .sort((a, b) => Number(!!b.isPinned) - Number(!!a.isPinned));
+  const archivedChats = chats.filter((chat) => chat.isArchived);
 
-  const fetchMembers = useCallback(async () => {
-    setIsMembersLoading(true);
+  const handleChatCreated = (newChat: Chat) => {
+    setIsNewChatOpen(false);
+    setIsImportOpen(false);
+    onNewChat(newChat);
+  };
+
+  // Other open clients pick these changes up through chatUpdated/chatDeleted
+  // socket events; this client applies them as soon as the request succeeds.
+  const runChatAction = async (
+    action: () => Promise<Partial<Chat>>,
+    failure: string
+  ) => {
+    setError(null);
     try {
-      const membersList = await chatApi.getAllMembers();
-      setMembers(membersList);
+      chatStore.updateChat(await action());
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch members");
-    } finally {
-      setIsMembersLoading(false);
+      setError(err instanceof Error ? err.message : failure);
     }
-  }, []);
+  };
 
-  useEffect(() => {
-    if (isDropdownOpen) {
-      fetchMembers();
-    }
-  }, [isDropdownOpen, fetchMembers]);
+  const handlePin = (chat: Chat, pinned: boolean) =>
+    runChatAction(async () => {
+      await chatApi.pinChat(chat.id, pinned);
+      return { id: chat.id, isPinned: pinned };
+    }, "Failed to pin chat");
 
-  const handleNewChatClick = () => {
-    setIsDropdownOpen(true);
-    setSelectedMembers([]);
-    setError(null);
-  };
+  const handleArchive = (chat: Chat, archived: boolean) =>
+    runChatAction(async () => {
+      await chatApi.archiveChat(chat.id, archived);
+      return { id: chat.id, isArchived: archived };
+    }, "Failed to archive chat");
 
-  const handleMemberToggle = (memberId: string) => {
-    setSelectedMembers((prev) =>
-      prev.includes(memberId)
-        ? prev.filter((id) => id !== memberId)
-        : [...prev, memberId]
-    );
-  };
+  const handleRename = (chat: Chat, name: string) =>
+    runChatAction(async () => {
+      const updatedChat = await chatApi.updateChat({ chatId: chat.id, name });
+      return { id: chat.id, name: updatedChat.name };
+    }, "Failed to rename chat");
 
-  const handleCreateChat = async () => {
-    if (selectedMembers.length === 0) {
-      setError("Please select at least one member");
-      return;
-    }
+  const handleConfirmDelete = async () => {
+    if (!chatToDelete) return;
 
-    setIsCreatingChat(true);
+    setIsDeleting(true);
+    setError(null);
     try {
-      const newChat = await chatApi.createChat({
-        memberIds: [...selectedMembers, userId],
-        name: `Chat with ${selectedMembers.join(", ")}`,
-      });
-
-      onNewChat(newChat);
-      setIsDropdownOpen(false);
-      setSelectedMembers([]);
-      setError(null);
+      await chatApi.deleteChat(chatToDelete.id);
+      chatStore.removeChat(chatToDelete.id);
+      setChatToDelete(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to create chat");
+      setError(err instanceof Error ? err.message : "Failed to delete chat");
     } finally {
-      setIsCreatingChat(false);
+      setIsDeleting(false);
     }
   };
 
+  const renderChat = (chat: Chat) => (
+    <ChatListItem
+      key={chat.id}
+      chat={chat}
+      displayName={getChatDisplayName(chat)}
+      preview={getLatestMessage(chat)}
+      isSelected={!!selectedChat && selectedChat.id === chat.id}
+      hasActivity={activeChatIds?.has(chat.id) ?? false}
+      onSelect={onChatSelect}
+      onPin={handlePin}
+      onArchive={handleArchive}
+      onRename={handleRename}
+      onDelete={setChatToDelete}
+    />
+  );
+
   return (
     <div className="w-64 h-screen bg-white text-[#1b2e5c] p-4 flex flex-col">
       {/* Header with title and new chat button */}
@@ -108,116 +168,183 @@ export function Sidebar({
           >
             SocietyOfMind
           </a>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="p-1.5 flex items-center justify-center text-[#1b2e5c] rounded-md hover:bg-gray-100 transition-colors"
+              title="Import Transcript"
+            >
+              <Upload size={16} />
+            </button>
+            <button
+              onClick={() => setIsNewChatOpen(true)}
+              className="p-1.5 flex items-center justify-center bg-[#1b2e5c] text-white rounded-md hover:bg-blue-600 transition-colors"
+              title="New Chat"
+            >
+              <Plus size={16} />
+            </button>
+          </div>
+        </div>
+      </div>
+      {/* Search box and filters */}
+      <div className="mb-2">
+        <div className="flex items-center border rounded-md px-2">
+          <Search size={14} className="text-gray-400 flex-shrink-0" />
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search chats and messages"
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm outline-none"
+          />
+          {searchQuery && (
+            <button
+              onClick={() => setSearchQuery("")}
+              className="text-gray-400 hover:text-gray-600"
+              title="Clear search"
+            >
+              <X size={14} />
+            </button>
+          )}
           <button
-            onClick={handleNewChatClick}
-            className="p-1.5 flex items-center justify-center bg-[#1b2e5c] text-white rounded-md hover:bg-blue-600 transition-colors"
-            title="New Chat"
+            onClick={() => setShowFilters((prev) => !prev)}
+            className={`ml-1 ${
+              hasFilters ? "text-blue-600" : "text-gray-400"
+            } hover:text-gray-600`}
+            title="Search filters"
           >
-            <Plus size={16} />
+            <SlidersHorizontal size={14} />
           </button>
         </div>
-        {/* Member Selection Dropdown */}
-        {isDropdownOpen && (
-          <div className="absolute right-0 bg-white border rounded-md shadow-lg mt-1 z-50 w-full">
-            <div className="p-3 border-b">
-              <h3 className="font-semibold text-gray-700">Select Members</h3>
-              {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
-            </div>
-            <div className="max-h-60 overflow-y-auto">
-              {isMembersLoading ? (
-                <div className="flex justify-center items-center p-4">
-                  <Loader2 className="animate-spin text-gray-500" size={24} />
-                </div>
-              ) : (
-                members
-                  .filter((member) => member.type === "PROGRAM")
-                  .map((member) => (
-                    <div
-                      key={member.id}
-                      className="flex items-center p-3 hover:bg-gray-50 cursor-pointer"
-                      onClick={() => handleMemberToggle(member.id)}
-                    >
-                      <input
-                        type="checkbox"
-                        checked={selectedMembers.includes(member.id)}
-                        onChange={() => {}}
-                        className="mr-3"
-                      />
-                      <div className="flex flex-col">
-                        <span className="font-medium">{member.name}</span>
-                        <span className="text-sm text-gray-500">
-                          {member.id}
-                        </span>
-                      </div>
-                    </div>
-                  ))
-              )}
+        {showFilters && (
+          <div className="mt-2 space-y-2 text-xs">
+            <select
+              value={senderFilter}
+              onChange={(e) => setSenderFilter(e.target.value)}
+              className="w-full px-2 py-1 border rounded-md"
+            >
+              <option value="">Any sender</option>
+              {members.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center space-x-1">
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="flex-1 min-w-0 px-1 py-1 border rounded-md"
+                title="From"
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="flex-1 min-w-0 px-1 py-1 border rounded-md"
+                title="To"
+              />
             </div>
-            <div className="p-3 border-t flex justify-end space-x-2">
-              {!isCreatingChat && (
-                <button
-                  onClick={() => setIsDropdownOpen(false)}
-                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
-                >
-                  Cancel
-                </button>
-              )}
+            {hasFilters && (
               <button
-                onClick={handleCreateChat}
-                disabled={isCreatingChat || selectedMembers.length === 0}
-                className={`px-4 py-2 text-sm font-medium rounded-md flex items-center text-white ${
-                  isCreatingChat || selectedMembers.length === 0
-                    ? "bg-gray-400 cursor-not-allowed"
-                    : "bg-[#1b2e5c] hover:bg-blue-600"
-                }`}
+                onClick={() => {
+                  setSenderFilter("");
+                  setFromDate("");
+                  setToDate("");
+                }}
+                className="text-gray-500 hover:underline"
               >
-                {isCreatingChat ? (
-                  <>
-                    <Loader2 className="animate-spin -ml-1 mr-2 h-4 w-4" />
-                    Creating...
-                  </>
-                ) : (
-                  "Create"
-                )}
+                Clear filters
               </button>
-            </div>
+            )}
           </div>
         )}
       </div>
 
-      {/* Chat list or loader */}
-      {isLoading ? (
+      {isNewChatOpen && (
+        <NewChatDialog
+          onClose={() => setIsNewChatOpen(false)}
+          onCreated={handleChatCreated}
+        />
+      )}
+
+      {isImportOpen && (
+        <ImportTranscriptDialog
+          onClose={() => setIsImportOpen(false)}
+          onCreated={handleChatCreated}
+        />
+      )}
+
+      {/* Search results, chat list or loader */}
+      {searchQuery.trim() ? (
+        <div className="flex-1 overflow-y-auto">
+          <SearchResults
+            query={searchQuery}
+            results={search.results}
+            isSearching={search.isSearching}
+            error={search.error}
+            getChatDisplayName={getChatDisplayName}
+            onOpen={onChatSelect}
+          />
+        </div>
+      ) : isLoading ? (
         <div className="flex-1 flex items-center justify-center">
           <Loader className="h-8 w-8 animate-spin text-[#1b2e5c]" />
         </div>
       ) : (
         <div className="flex-1 overflow-y-auto">
-          {chats.map((chat) => (
-            <div
-              key={chat.id}
-              className={`flex items-center p-2.5 h-16 cursor-pointer rounded-lg mx-2 my-1 ${
-                selectedChat && selectedChat.id === chat.id
-                  ? "bg-[#1b2e5c] text-white"
-                  : "hover:bg-gray-100"
-              }`}
-              onClick={() => onChatSelect(chat)}
-            >
-              <div className="flex-1 min-w-0">
-                <h3 className="font-semibold text-sm truncate">
-                  {getChatDisplayName(chat)}
-                </h3>
-                <p
-                  className={`text-xs truncate ${
-                    selectedChat && selectedChat.id === chat.id
-                      ? "text-gray-300"
-                      : "text-gray-500"
-                  }`}
+          {error && <p className="text-red-500 text-xs mx-2 mb-1">{error}</p>}
+          {activeChats.map(renderChat)}
+          {archivedChats.length > 0 && (
+            <div className="mt-2">
+              <button
+                onClick={() => setShowArchived((prev) => !prev)}
+                className="flex items-center mx-2 px-2 py-1 text-xs font-semibold text-gray-500 hover:text-[#1b2e5c]"
+              >
+                {showArchived ? (
+                  <ChevronDown size={14} className="mr-1" />
+                ) : (
+                  <ChevronRight size={14} className="mr-1" />
+                )}
+                Archived ({archivedChats.length})
+              </button>
+              {showArchived && archivedChats.map(renderChat)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {chatToDelete && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md text-gray-900">
+            <h3 className="text-lg font-semibold mb-2">Delete chat?</h3>
+            <p className="text-sm text-gray-600">
+              &ldquo;{getChatDisplayName(chatToDelete)}&rdquo; and all of its
+              messages will be permanently deleted.
+            </p>
+            <div className="mt-6 flex justify-end space-x-3">
+              {!isDeleting && (
+                <button
+                  onClick={() => setChatToDelete(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium"
                 >
-                  {getLatestMessage(chat)}
-                </p>
-              </div>
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleConfirmDelete}
+                disabled={isDeleting}
+                className="px-4 py-2 bg-red-600 text-white rounded-md text-sm font-medium hover:bg-red-700 disabled:opacity-50 flex items-center"
+              >
+                {isDeleting && (
+                  <Loader2 className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                )}
+                Delete
+              </button>
             </div>
-          ))}
+          </div>
         </div>
       )}
       
@@ -230,6 +357,25 @@ export function Sidebar({
           <PersonStanding size={18} className="mr-2" />
           <span className="text-sm font-medium">Manage AI Agents</span>
         </Link>
+        <div className="flex items-center justify-between p-2 mt-1 border-t">
+          <div className="min-w-0">
+            <div className="text-sm font-medium truncate">
+              {currentUser.name}
+            </div>
+            {currentUser.email && (
+              <div className="text-xs text-gray-500 truncate">
+                {currentUser.email}
+              </div>
+            )}
+          </div>
+          <Link
+            href="/logout"
+            className="p-1.5 rounded-md hover:bg-gray-100 text-[#1b2e5c] transition-colors"
+            title="Sign out"
+          >
+            <LogOut size={16} />
+          </Link>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,117 @@
+// src/components/ThreadPanel.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { CornerUpLeft, Loader2, X } from "lucide-react";
+import { Message } from "@/types";
+import { mergeMessages } from "@/lib/messages";
+import { MessageBubble } from "./MessageBubble";
+
+interface ThreadPanelProps {
+  rootMessage: Message;
+  // Loaded messages of the chat; live replies are picked up from here
+  messages: Message[];
+  userId: string;
+  onLoadReplies?: (chatId: string, messageId: string) => Promise<Message[]>;
+  onReply: (message: Message) => void;
+  onClose: () => void;
+}
+
+export function ThreadPanel({
+  rootMessage,
+  messages,
+  userId,
+  onLoadReplies,
+  onReply,
+  onClose,
+}: ThreadPanelProps): JSX.Element {
+  const [fetchedReplies, setFetchedReplies] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { chatId, id: rootId } = rootMessage;
+
+  // Replies can sit outside the loaded history, so ask for the full thread
+  useEffect(() => {
+    setFetchedReplies([]);
+    setError(null);
+    if (!onLoadReplies) return;
+
+    let isCurrent = true;
+    setIsLoading(true);
+    onLoadReplies(chatId, rootId)
+      .then((replies) => {
+        if (isCurrent) setFetchedReplies(replies);
+      })
+      .catch((err) => {
+        if (!isCurrent) return;
+        console.error("Failed to load thread:", err);
+        setError("Failed to load earlier replies.");
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [chatId, rootId, onLoadReplies]);
+
+  const replies = useMemo(
+    () =>
+      mergeMessages(
+        fetchedReplies,
+        messages.filter((message) => message.replyToId === rootId)
+      ),
+    [fetchedReplies, messages, rootId]
+  );
+
+  return (
+    <div className="w-96 flex-shrink-0 border-l bg-gray-50 flex flex-col">
+      <div className="h-16 p-4 flex items-center justify-between border-b bg-gray-100">
+        <h3 className="font-semibold">Thread</h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md text-gray-600 hover:bg-gray-200"
+          title="Close thread"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        <MessageBubble
+          message={rootMessage}
+          isUser={rootMessage.senderId === userId}
+          userId={userId}
+        />
+        <div className="flex items-center my-3 text-xs text-gray-500">
+          <span className="mr-2">
+            {replies.length} {replies.length === 1 ? "reply" : "replies"}
+          </span>
+          <div className="flex-1 border-t" />
+          {isLoading && <Loader2 size={12} className="ml-2 animate-spin" />}
+        </div>
+        {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+        {replies.map((reply) => (
+          <MessageBubble
+            key={reply.id}
+            message={reply}
+            isUser={reply.senderId === userId}
+            userId={userId}
+          />
+        ))}
+      </div>
+
+      <div className="p-4 border-t">
+        <button
+          onClick={() => onReply(rootMessage)}
+          className="w-full flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-[#1b2e5c] rounded-md hover:bg-blue-600"
+        >
+          <CornerUpLeft size={14} className="mr-2" />
+          Reply in thread
+        </button>
+      </div>
+    </div>
+  );
+}
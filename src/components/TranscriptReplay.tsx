@@ -0,0 +1,132 @@
+// src/components/TranscriptReplay.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Pause, Play, RotateCcw, SkipForward, X } from "lucide-react";
+import { Message } from "@/types";
+import { useCurrentUser } from "@/context/SessionContext";
+import { MessageBubble, SystemMessage } from "./MessageBubble";
+
+interface TranscriptReplayProps {
+  title: string;
+  messages: Message[];
+  onClose: () => void;
+}
+
+const SPEEDS = [
+  { label: "Slow", intervalMs: 3000 },
+  { label: "Normal", intervalMs: 1500 },
+  { label: "Fast", intervalMs: 500 },
+];
+
+export function TranscriptReplay({
+  title,
+  messages,
+  onClose,
+}: TranscriptReplayProps): JSX.Element {
+  const currentUser = useCurrentUser();
+  const [shownCount, setShownCount] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [intervalMs, setIntervalMs] = useState(SPEEDS[1].intervalMs);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const isFinished = shownCount >= messages.length;
+
+  useEffect(() => {
+    if (!isPlaying || isFinished) return;
+
+    const timeout = setTimeout(
+      () => setShownCount((prev) => prev + 1),
+      intervalMs
+    );
+    return () => clearTimeout(timeout);
+  }, [isPlaying, isFinished, shownCount, intervalMs]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [shownCount]);
+
+  const restart = () => {
+    setShownCount(1);
+    setIsPlaying(true);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-100 rounded-lg w-full max-w-3xl h-[90vh] flex flex-col text-gray-900">
+        <div className="flex items-center justify-between p-4 border-b bg-white rounded-t-lg">
+          <div className="min-w-0">
+            <h3 className="font-semibold truncate">{title}</h3>
+            <p className="text-xs text-gray-500">
+              Replay · {Math.min(shownCount, messages.length)} of{" "}
+              {messages.length} messages · read-only
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={intervalMs}
+              onChange={(e) => setIntervalMs(Number(e.target.value))}
+              className="px-2 py-1 text-sm border rounded-md"
+              title="Replay speed"
+            >
+              {SPEEDS.map((speed) => (
+                <option key={speed.intervalMs} value={speed.intervalMs}>
+                  {speed.label}
+                </option>
+              ))}
+            </select>
+            {isFinished ? (
+              <button
+                onClick={restart}
+                className="p-1.5 rounded-md hover:bg-gray-100"
+                title="Restart"
+              >
+                <RotateCcw size={16} />
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => setIsPlaying((prev) => !prev)}
+                  className="p-1.5 rounded-md hover:bg-gray-100"
+                  title={isPlaying ? "Pause" : "Play"}
+                >
+                  {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <button
+                  onClick={() => setShownCount((prev) => prev + 1)}
+                  className="p-1.5 rounded-md hover:bg-gray-100"
+                  title="Next message"
+                >
+                  <SkipForward size={16} />
+                </button>
+              </>
+            )}
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded-md hover:bg-gray-100"
+              title="Close replay"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {messages
+            .slice(0, shownCount)
+            .map((message) =>
+              message.type === "SYSTEM" ? (
+                <SystemMessage key={message.id} message={message} />
+              ) : (
+                <MessageBubble
+                  key={message.id}
+                  message={message}
+                  isUser={message.senderId === currentUser.id}
+                />
+              )
+            )}
+          <div ref={bottomRef} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+// src/context/MembersContext.tsx
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { Member } from "@/types";
+import { chatApi } from "@/api/chat";
+import { subscribeToMembersChanged } from "@/lib/memberEvents";
+import { chatStore, ownEntry, useChatStore } from "@/store/chatStore";
+import { selectMembers, selectMembersById } from "@/store/selectors";
+import { useSession } from "./SessionContext";
+
+interface MembersContextValue {
+  members: Member[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  getMember: (memberId: string) => Member | undefined;
+  // The member's name, or the id itself for members not in the directory
+  memberName: (memberId: string) => string;
+}
+
+const MembersContext = createContext<MembersContextValue | null>(null);
+
+// Loads the member list into the chat store once for the whole app, so
+// names, colors and avatars resolve the same way everywhere
+export function MembersProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}): JSX.Element {
+  const { user } = useSession();
+  const members = useChatStore(selectMembers);
+  const membersById = useChatStore(selectMembersById);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const membersList = await chatApi.getAllMembers();
+      chatStore.setMembers(membersList);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch members");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // The list is only readable once signed in
+  useEffect(() => {
+    if (user) {
+      fetchMembers();
+    } else {
+      chatStore.setMembers([]);
+    }
+  }, [user, fetchMembers]);
+
+  // Pick up agents created, edited or deleted on the Agents page
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToMembersChanged(fetchMembers);
+  }, [user, fetchMembers]);
+
+  const value = useMemo(
+    () => ({
+      members,
+      isLoading,
+      error,
+      refresh: fetchMembers,
+      getMember: (memberId: string): Member | undefined =>
+        ownEntry(membersById, memberId),
+      memberName: (memberId: string) =>
+        ownEntry(membersById, memberId)?.name ?? memberId,
+    }),
+    [members, membersById, isLoading, error, fetchMembers]
+  );
+
+  return (
+    <MembersContext.Provider value={value}>{children}</MembersContext.Provider>
+  );
+}
+
+export function useMemberDirectory(): MembersContextValue {
+  const context = useContext(MembersContext);
+  if (!context) {
+    throw new Error("useMemberDirectory must be used within a MembersProvider");
+  }
+  return context;
+}
@@ -0,0 +1,82 @@
+// src/context/SessionContext.tsx
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { Member } from "@/types";
+import { authApi, LoginData } from "@/api/auth";
+import { chatStore } from "@/store/chatStore";
+
+interface SessionContextValue {
+  user: Member | null;
+  isLoading: boolean;
+  login: (loginData: LoginData) => Promise<Member>;
+  logout: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+export function SessionProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}): JSX.Element {
+  const [user, setUser] = useState<Member | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        setUser(await authApi.getSession());
+      } catch (err) {
+        console.error("Failed to load session:", err);
+        setUser(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSession();
+  }, []);
+
+  const login = useCallback(async (loginData: LoginData) => {
+    const member = await authApi.login(loginData);
+    setUser(member);
+    return member;
+  }, []);
+
+  const logout = useCallback(async () => {
+    await authApi.logout();
+    // Nothing cached for this user should outlive the session
+    chatStore.reset();
+    setUser(null);
+  }, []);
+
+  return (
+    <SessionContext.Provider value={{ user, isLoading, login, logout }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error("useSession must be used within a SessionProvider");
+  }
+  return context;
+}
+
+// For components rendered behind the SessionGate, where a user is guaranteed
+export function useCurrentUser(): Member {
+  const { user } = useSession();
+  if (!user) {
+    throw new Error("useCurrentUser called without a signed-in user");
+  }
+  return user;
+}
@@ -0,0 +1,143 @@
+// src/hooks/useAttachments.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { chatApi } from "@/api/chat";
+import {
+  AttachmentPart,
+  isImageType,
+  MAX_ATTACHMENT_BYTES,
+  formatFileSize,
+} from "@/lib/attachments";
+
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  // Local object URL so images preview before the upload finishes
+  previewUrl: string | null;
+  status: "uploading" | "uploaded" | "failed";
+  part?: AttachmentPart;
+  error?: string;
+}
+
+// Files are uploaded as soon as they are added, so sending only has to
+// reference the stored copies
+export const useAttachments = () => {
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+
+  const updateAttachment = (id: string, update: Partial<PendingAttachment>) =>
+    setAttachments((prev) =>
+      prev.map((attachment) =>
+        attachment.id === id ? { ...attachment, ...update } : attachment
+      )
+    );
+
+  const upload = useCallback(async (id: string, file: File) => {
+    try {
+      const uploaded = await chatApi.uploadFile(file);
+      updateAttachment(id, {
+        status: "uploaded",
+        part: {
+          type: isImageType(uploaded.mimeType) ? "image" : "file",
+          url: uploaded.url,
+          name: uploaded.name,
+          mimeType: uploaded.mimeType,
+          size: uploaded.size,
+        },
+      });
+    } catch (err) {
+      console.error("Failed to upload attachment:", err);
+      updateAttachment(id, {
+        status: "failed",
+        error: err instanceof Error ? err.message : "Upload failed",
+      });
+    }
+  }, []);
+
+  const addFiles = useCallback(
+    (files: File[]) => {
+      const added: PendingAttachment[] = files.map((file) => {
+        const id = crypto.randomUUID();
+        const tooLarge = file.size > MAX_ATTACHMENT_BYTES;
+        return {
+          id,
+          file,
+          previewUrl: isImageType(file.type) ? URL.createObjectURL(file) : null,
+          status: tooLarge ? "failed" : "uploading",
+          error: tooLarge
+            ? `Larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`
+            : undefined,
+        };
+      });
+
+      setAttachments((prev) => [...prev, ...added]);
+      for (const attachment of added) {
+        if (attachment.status === "uploading") {
+          upload(attachment.id, attachment.file);
+        }
+      }
+    },
+    [upload]
+  );
+
+  const retry = useCallback(
+    (id: string) => {
+      const attachment = attachmentsRef.current.find(
+        (pending) => pending.id === id
+      );
+      if (!attachment || attachment.file.size > MAX_ATTACHMENT_BYTES) return;
+      updateAttachment(id, { status: "uploading", error: undefined });
+      upload(id, attachment.file);
+    },
+    [upload]
+  );
+
+  const remove = useCallback((id: string) => {
+    setAttachments((prev) => {
+      const removed = prev.find((attachment) => attachment.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((attachment) => attachment.id !== id);
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    setAttachments((prev) => {
+      for (const attachment of prev) {
+        if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl);
+      }
+      return [];
+    });
+  }, []);
+
+  // Release any previews still held when the composer goes away
+  useEffect(
+    () => () => {
+      for (const attachment of attachmentsRef.current) {
+        if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl);
+      }
+    },
+    []
+  );
+
+  const uploadedParts = attachments
+    .filter((attachment) => attachment.status === "uploaded")
+    .map((attachment) => attachment.part as AttachmentPart);
+  const isUploading = attachments.some(
+    (attachment) => attachment.status === "uploading"
+  );
+  // Sending would drop these, so they must be retried or removed first
+  const hasFailedUploads = attachments.some(
+    (attachment) => attachment.status === "failed"
+  );
+
+  return {
+    attachments,
+    uploadedParts,
+    isUploading,
+    hasFailedUploads,
+    addFiles,
+    retry,
+    remove,
+    clear,
+  };
+};
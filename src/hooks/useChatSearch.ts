@@ -0,0 +1,50 @@
+// src/hooks/useChatSearch.ts
+import { useEffect, useState } from "react";
+import { ChatSearchResult } from "@/types";
+import { chatApi, SearchParams } from "@/api/chat";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const useChatSearch = ({ query, senderId, from, to }: SearchParams) => {
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    // Abort the request of a superseded query so its results can't land late
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const found = await chatApi.search(
+          { query: query.trim(), senderId, from, to },
+          controller.signal
+        );
+        setResults(found);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Search failed");
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, senderId, from, to]);
+
+  return { results, isSearching, error };
+};
@@ -0,0 +1,115 @@
+// src/hooks/useMemberActivity.ts
+import { useEffect, useMemo, useState } from "react";
+import {
+  MemberActivity,
+  MemberActivityEvent,
+  Message,
+  MessageStreamStart,
+} from "@/types";
+import { onServerEvent, ProtocolSocket } from "@/lib/protocol";
+
+// An indicator is dropped if the server goes quiet this long without a
+// reply arriving; agents re-send their activity while they keep working
+const ACTIVITY_TIMEOUT_MS = 60 * 1000;
+const EXPIRY_CHECK_MS = 5 * 1000;
+
+const activityKey = (chatId: string, memberId: string) =>
+  `${chatId}:${memberId}`;
+
+function withoutActivity(
+  activities: Record<string, MemberActivity>,
+  chatId: string,
+  memberId: string | null
+): Record<string, MemberActivity> {
+  if (!memberId) return activities;
+  const key = activityKey(chatId, memberId);
+  if (!(key in activities)) return activities;
+  const { [key]: _removed, ...rest } = activities;
+  return rest;
+}
+
+export const useMemberActivity = (socket: ProtocolSocket | null) => {
+  const [activities, setActivities] = useState<Record<string, MemberActivity>>(
+    {}
+  );
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleActivity = (event: MemberActivityEvent) => {
+      if (event.activity === "idle") {
+        setActivities((prev) =>
+          withoutActivity(prev, event.chatId, event.memberId)
+        );
+        return;
+      }
+
+      const { activity } = event;
+      setActivities((prev) => {
+        const key = activityKey(event.chatId, event.memberId);
+        const existing = prev[key];
+        return {
+          ...prev,
+          [key]: {
+            chatId: event.chatId,
+            memberId: event.memberId,
+            activity,
+            // Keep counting from the first report of an ongoing activity
+            startedAt:
+              event.startedAt ??
+              existing?.startedAt ??
+              new Date().toISOString(),
+            updatedAt: Date.now(),
+          },
+        };
+      });
+    };
+
+    // Once the reply starts streaming or arrives it takes the indicator's place
+    const handleStreamStart = (start: MessageStreamStart) => {
+      setActivities((prev) =>
+        withoutActivity(prev, start.chatId, start.senderId)
+      );
+    };
+    const handleNewMessage = (message: Message) => {
+      setActivities((prev) =>
+        withoutActivity(prev, message.chatId, message.senderId)
+      );
+    };
+
+    const unsubscribers = [
+      onServerEvent(socket, "memberActivity", handleActivity),
+      onServerEvent(socket, "messageStart", handleStreamStart),
+      onServerEvent(socket, "newMessage", handleNewMessage),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [socket]);
+
+  const hasActivities = Object.keys(activities).length > 0;
+
+  useEffect(() => {
+    if (!hasActivities) return;
+
+    const interval = setInterval(() => {
+      const cutoff = Date.now() - ACTIVITY_TIMEOUT_MS;
+      setActivities((prev) => {
+        const live = Object.entries(prev).filter(
+          ([, activity]) => activity.updatedAt > cutoff
+        );
+        return live.length === Object.keys(prev).length
+          ? prev
+          : Object.fromEntries(live);
+      });
+    }, EXPIRY_CHECK_MS);
+
+    return () => clearInterval(interval);
+  }, [hasActivities]);
+
+  const activeChatIds = useMemo(
+    () => new Set(Object.values(activities).map((activity) => activity.chatId)),
+    [activities]
+  );
+
+  return { activities, activeChatIds };
+};
@@ -0,0 +1,8 @@
+// src/hooks/useMembers.ts
+import { useMemberDirectory } from "@/context/MembersContext";
+
+// The shared member directory, fetched once by the MembersProvider
+export const useMembers = () => {
+  const { members, isLoading, error, refresh } = useMemberDirectory();
+  return { members, isLoading, error, refresh };
+};
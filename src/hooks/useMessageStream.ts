@@ -0,0 +1,107 @@
+// src/hooks/useMessageStream.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  MessageStreamChunk,
+  MessageStreamEnd,
+  MessageStreamStart,
+  StreamingMessage,
+} from "@/types";
+import { onServerEvent, ProtocolSocket } from "@/lib/protocol";
+
+// How long a finished stream stays up waiting for its final newMessage;
+// after that the generation is taken to have been aborted
+const STREAM_END_GRACE_MS = 5000;
+
+export const useMessageStream = (socket: ProtocolSocket | null) => {
+  const [streamingMessages, setStreamingMessages] = useState<
+    Record<string, StreamingMessage>
+  >({});
+  const endTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  // Drop the partial copy once the final message has been received
+  const completeStream = useCallback((messageId: string) => {
+    clearTimeout(endTimersRef.current.get(messageId));
+    endTimersRef.current.delete(messageId);
+    setStreamingMessages((prev) => {
+      if (!Object.hasOwn(prev, messageId)) return prev;
+      const { [messageId]: _completed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+    const endTimers = endTimersRef.current;
+
+    const handleStart = (start: MessageStreamStart) => {
+      setStreamingMessages((prev) => ({
+        ...prev,
+        [start.messageId]: {
+          id: start.messageId,
+          chatId: start.chatId,
+          senderId: start.senderId,
+          type: "MEMBER",
+          content: { text: "" },
+          createdAt: start.createdAt ?? new Date().toISOString(),
+          isStreaming: true,
+        },
+      }));
+    };
+
+    const handleChunk = (chunk: MessageStreamChunk) => {
+      setStreamingMessages((prev) => {
+        const existing = prev[chunk.messageId];
+        // Chunks for a stream we never saw start are dropped; the final
+        // newMessage event still delivers the complete text.
+        if (!existing) return prev;
+        return {
+          ...prev,
+          [chunk.messageId]: {
+            ...existing,
+            content: { text: existing.content.text + chunk.delta },
+          },
+        };
+      });
+    };
+
+    const handleEnd = (end: MessageStreamEnd) => {
+      setStreamingMessages((prev) => {
+        const existing = prev[end.messageId];
+        if (!existing) return prev;
+        return {
+          ...prev,
+          [end.messageId]: { ...existing, isStreaming: false },
+        };
+      });
+      clearTimeout(endTimers.get(end.messageId));
+      endTimers.set(
+        end.messageId,
+        setTimeout(() => completeStream(end.messageId), STREAM_END_GRACE_MS)
+      );
+    };
+
+    // Streams can't resume on a new connection; anything that finished
+    // meanwhile arrives through the resync instead
+    const clearStreams = () => {
+      endTimers.forEach((timer) => clearTimeout(timer));
+      endTimers.clear();
+      setStreamingMessages({});
+    };
+
+    const unsubscribers = [
+      onServerEvent(socket, "messageStart", handleStart),
+      onServerEvent(socket, "messageChunk", handleChunk),
+      onServerEvent(socket, "messageEnd", handleEnd),
+    ];
+    socket.on("disconnect", clearStreams);
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      socket.off("disconnect", clearStreams);
+      endTimers.forEach((timer) => clearTimeout(timer));
+      endTimers.clear();
+    };
+  }, [socket, completeStream]);
+
+  return { streamingMessages, completeStream };
+};
@@ -0,0 +1,139 @@
+// src/hooks/useOrchestration.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  OrchestrationAck,
+  OrchestrationSettings,
+  OrchestrationState,
+} from "@/types";
+import { onServerEvent, ProtocolSocket, request } from "@/lib/protocol";
+
+const ORCHESTRATION_ACK_TIMEOUT_MS = 10000;
+
+export interface OrchestrationControls {
+  state: OrchestrationState | null;
+  isUpdating: boolean;
+  error: string | null;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  update: (settings: Partial<OrchestrationSettings>) => Promise<void>;
+}
+
+export const useOrchestration = (
+  socket: ProtocolSocket | null,
+  chatId: string | null,
+  isConnected: boolean
+): OrchestrationControls => {
+  const [state, setState] = useState<OrchestrationState | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Chat shown right now, so a late ack for another chat is ignored
+  const chatIdRef = useRef(chatId);
+  chatIdRef.current = chatId;
+
+  // Fetch the state of the open chat, again after every reconnect
+  useEffect(() => {
+    setState(null);
+    setError(null);
+    setIsUpdating(false);
+    if (!socket || !chatId || !isConnected) return;
+
+    let isCurrent = true;
+    (async () => {
+      try {
+        const ack = await request(
+          socket,
+          "getOrchestration",
+          { chatId },
+          ORCHESTRATION_ACK_TIMEOUT_MS
+        );
+        if (!isCurrent) return;
+        if (!ack.ok) {
+          throw new Error(ack.error);
+        }
+        setState(ack.state);
+      } catch (err) {
+        if (!isCurrent) return;
+        console.error("Failed to load orchestration state:", err);
+        setError("Failed to load orchestration state");
+      }
+    })();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [socket, chatId, isConnected]);
+
+  // Changes made from any client, and round progress, are broadcast
+  useEffect(() => {
+    if (!socket || !chatId) return;
+
+    const handleUpdate = (updated: OrchestrationState) => {
+      if (updated.chatId === chatId) {
+        setState(updated);
+      }
+    };
+
+    return onServerEvent(socket, "orchestrationUpdated", handleUpdate);
+  }, [socket, chatId]);
+
+  const send = useCallback(
+    async (
+      action: string,
+      requestChange: (
+        socket: ProtocolSocket,
+        chatId: string
+      ) => Promise<OrchestrationAck>
+    ) => {
+      if (!socket || !chatId) return;
+
+      setIsUpdating(true);
+      setError(null);
+      try {
+        const ack = await requestChange(socket, chatId);
+        if (chatIdRef.current !== chatId) return;
+        if (!ack.ok) {
+          throw new Error(ack.error);
+        }
+        setState(ack.state);
+      } catch (err) {
+        console.error(`Failed to ${action}:`, err);
+        if (chatIdRef.current !== chatId) return;
+        setError(
+          err instanceof Error ? err.message : "Failed to update orchestration"
+        );
+      } finally {
+        if (chatIdRef.current === chatId) setIsUpdating(false);
+      }
+    },
+    [socket, chatId]
+  );
+
+  const pause = useCallback(
+    () =>
+      send("pause the chat", (socket, chatId) =>
+        request(socket, "pauseChat", { chatId }, ORCHESTRATION_ACK_TIMEOUT_MS)
+      ),
+    [send]
+  );
+  const resume = useCallback(
+    () =>
+      send("resume the chat", (socket, chatId) =>
+        request(socket, "resumeChat", { chatId }, ORCHESTRATION_ACK_TIMEOUT_MS)
+      ),
+    [send]
+  );
+  const update = useCallback(
+    (settings: Partial<OrchestrationSettings>) =>
+      send("update orchestration", (socket, chatId) =>
+        request(
+          socket,
+          "updateOrchestration",
+          { chatId, settings },
+          ORCHESTRATION_ACK_TIMEOUT_MS
+        )
+      ),
+    [send]
+  );
+
+  return { state, isUpdating, error, pause, resume, update };
+};
@@ -1,52 +1,96 @@
 // src/hooks/useSocket.ts
-import { useState, useEffect } from "react";
-import { io, Socket } from "socket.io-client";
+import { useState, useEffect, useCallback } from "react";
+import { io } from "socket.io-client";
+import { useSession } from "@/context/SessionContext";
+import {
+  checkProtocolVersion,
+  PROTOCOL_VERSION,
+  ProtocolIssue,
+  ProtocolSocket,
+  subscribeToProtocolIssues,
+} from "@/lib/protocol";
 
 const api_url = process.env.NEXT_PUBLIC_API_BASE_URL ?? 'http://localhost:3001';
 
-let socket: Socket | null = null;
+// Only the local auth stand-in names the member itself; otherwise the
+// server takes the identity from the session cookie
+const isLocalAuth = process.env.NEXT_PUBLIC_AUTH_MODE === "local";
+
+let socket: ProtocolSocket | null = null;
+// Member the shared socket was opened for, so a new identity reconnects
+let socketMemberId: string | null = null;
+
+// Close the shared socket, e.g. on sign-out, so the next connection is made
+// with the new session's identity
+export const disconnectSocket = () => {
+  if (socket) {
+    socket.disconnect();
+    socket = null;
+    socketMemberId = null;
+  }
+};
 
 export const useSocket = () => {
-  const [isConnected, setIsConnected] = useState(false);
+  const { user } = useSession();
+  const memberId = user?.id ?? null;
+  // The socket outlives page navigations, so it may already be open
+  const [currentSocket, setCurrentSocket] = useState(socket);
+  const [isConnected, setIsConnected] = useState(socket?.connected ?? false);
+  const [protocolIssue, setProtocolIssue] = useState<ProtocolIssue | null>(
+    null
+  );
 
   useEffect(() => {
+    if (socket && socketMemberId !== memberId) {
+      disconnectSocket();
+    }
     if (!socket) {
-      socket = io(api_url, { withCredentials: true });
+      socket = io(api_url, {
+        withCredentials: true,
+        auth:
+          isLocalAuth && memberId
+            ? { memberId, protocolVersion: PROTOCOL_VERSION }
+            : { protocolVersion: PROTOCOL_VERSION },
+      });
+      socketMemberId = memberId;
     }
+    const activeSocket = socket;
+    setCurrentSocket(activeSocket);
+    setIsConnected(activeSocket.connected);
 
-    socket.on("connect", () => {
+    const handleConnect = () => {
       setIsConnected(true);
-      console.log("Socket connected: ", socket?.id);
-    });
-    socket.on("disconnect", () => {
+      console.log("Socket connected: ", activeSocket.id);
+      checkProtocolVersion(activeSocket);
+    };
+    const handleDisconnect = () => {
       setIsConnected(false);
-      console.log("Socket disconnected: ", socket?.id);
-    });
+      console.log("Socket disconnected: ", activeSocket.id);
+    };
+
+    activeSocket.on("connect", handleConnect);
+    activeSocket.on("disconnect", handleDisconnect);
+
+    // A version mismatch outranks any later malformed-event report
+    const unsubscribe = subscribeToProtocolIssues((issue) =>
+      setProtocolIssue((prev) =>
+        prev?.kind === "version-mismatch" ? prev : issue
+      )
+    );
 
     return () => {
-      if (socket) {
-        socket.off("connect");
-        socket.off("disconnect");
-      }
+      unsubscribe();
+      activeSocket.off("connect", handleConnect);
+      activeSocket.off("disconnect", handleDisconnect);
     };
-  }, []);
-
-  // Function to refresh the connection by disconnecting and reconnecting
-  const refreshConnection = () => {
-    if (socket) {
-      console.log("Refreshing socket connection...");
-      // Disconnect and reconnect to trigger the initialData event
-      socket.disconnect();
-      socket.connect();
-    }
-  };
+  }, [memberId]);
 
-  const disconnect = () => {
-    if (socket) {
-      socket.disconnect();
-      socket = null;
-    }
-  };
+  const dismissProtocolIssue = useCallback(() => setProtocolIssue(null), []);
 
-  return { socket, isConnected, refreshConnection };
+  return {
+    socket: currentSocket,
+    isConnected,
+    protocolIssue,
+    dismissProtocolIssue,
+  };
 };
@@ -0,0 +1,42 @@
+// src/lib/attachments.ts
+import { FilePart, ImagePart, Message, MessagePart } from "@/types";
+
+export type AttachmentPart = ImagePart | FilePart;
+
+// Largest file the composer will try to upload
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// Text-only messages predate parts; treat them as a single text part
+export function messageParts(message: Message): MessagePart[] {
+  return (
+    message.content.parts ?? [{ type: "text", text: message.content.text }]
+  );
+}
+
+export function messageAttachments(message: Message): AttachmentPart[] {
+  return messageParts(message).filter(
+    (part): part is AttachmentPart => part.type !== "text"
+  );
+}
+
+const ATTACHMENT_URL_PROTOCOLS = ["http:", "https:", "blob:"];
+
+// Attachment URLs end up in links and <img> tags, so only web and local blob
+// URLs are allowed; a "javascript:" URL would run when the link is clicked
+export function isSafeAttachmentUrl(url: string): boolean {
+  try {
+    return ATTACHMENT_URL_PROTOCOLS.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export function isImageType(mimeType: string): boolean {
+  return mimeType.startsWith("image/");
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
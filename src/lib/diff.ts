@@ -0,0 +1,103 @@
+// src/lib/diff.ts
+// Line-based diff for comparing short documents such as system messages.
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  type: "same" | "added" | "removed" | "changed";
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+type DiffOp =
+  | { kind: "equal"; left: number; right: number }
+  | { kind: "delete"; left: number }
+  | { kind: "insert"; right: number };
+
+// Longest-common-subsequence table walk; inputs are small enough that the
+// O(n * m) table is not a concern.
+function diffOps(left: string[], right: string[]): DiffOp[] {
+  const lcs: number[][] = Array.from({ length: left.length + 1 }, () =>
+    new Array<number>(right.length + 1).fill(0)
+  );
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        left[i] === right[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      ops.push({ kind: "equal", left: i++, right: j++ });
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ kind: "delete", left: i++ });
+    } else {
+      ops.push({ kind: "insert", right: j++ });
+    }
+  }
+  while (i < left.length) ops.push({ kind: "delete", left: i++ });
+  while (j < right.length) ops.push({ kind: "insert", right: j++ });
+  return ops;
+}
+
+// Diff two texts into side-by-side rows. Runs of removed lines followed by
+// added lines are paired up as "changed" rows.
+export function diffLines(before: string, after: string): DiffRow[] {
+  const left = before.split("\n");
+  const right = after.split("\n");
+  const line = (lines: string[], index: number): DiffLine => ({
+    number: index + 1,
+    text: lines[index],
+  });
+
+  const rows: DiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    const paired = Math.max(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      const l = removed[k];
+      const r = added[k];
+      rows.push({
+        type:
+          l !== undefined && r !== undefined
+            ? "changed"
+            : l !== undefined
+              ? "removed"
+              : "added",
+        left: l !== undefined ? line(left, l) : undefined,
+        right: r !== undefined ? line(right, r) : undefined,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of diffOps(left, right)) {
+    if (op.kind === "equal") {
+      flush();
+      rows.push({
+        type: "same",
+        left: line(left, op.left),
+        right: line(right, op.right),
+      });
+    } else if (op.kind === "delete") {
+      removed.push(op.left);
+    } else {
+      added.push(op.right);
+    }
+  }
+  flush();
+
+  return rows;
+}
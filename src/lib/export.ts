@@ -0,0 +1,279 @@
+// src/lib/export.ts
+// Serializers for downloading a chat as Markdown, JSON or standalone HTML.
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import remarkRehype from "remark-rehype";
+import rehypeKatex from "rehype-katex";
+import rehypeStringify from "rehype-stringify";
+import { Chat, ChatTranscript, Member, Message } from "@/types";
+import { messageAttachments } from "./attachments";
+
+export interface ExportOptions {
+  includeSystem: boolean;
+}
+
+interface ExportInput {
+  chat: Chat;
+  messages: Message[];
+  members: Member[];
+}
+
+function exportedMessages(
+  messages: Message[],
+  { includeSystem }: ExportOptions
+): Message[] {
+  return includeSystem
+    ? messages
+    : messages.filter((message) => message.type !== "SYSTEM");
+}
+
+function memberName(members: Member[], memberId: string | null): string {
+  if (!memberId) return "System";
+  return members.find((member) => member.id === memberId)?.name ?? memberId;
+}
+
+// Brackets in a file name, or spaces and parentheses in a URL, would end
+// the link early
+function escapeLinkText(text: string): string {
+  return text.replace(/[\\[\]]/g, "\\$&");
+}
+
+function escapeLinkUrl(url: string): string {
+  return url.replace(/ /g, "%20").replace(/\(/g, "%28").replace(/\)/g, "%29");
+}
+
+// Message text followed by links to its attachments
+function messageMarkdown(message: Message): string {
+  const links = messageAttachments(message).map(({ type, name, url }) => {
+    const link = `[${escapeLinkText(name)}](${escapeLinkUrl(url)})`;
+    return type === "image" ? `!${link}` : link;
+  });
+  return [message.content.text, ...links].filter(Boolean).join("\n\n");
+}
+
+// Message bodies are quoted so headings and bold labels written inside a
+// message can't be read back as transcript structure on import
+function quoteMarkdown(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+function chatTitle(chat: Chat, members: Member[]): string {
+  return (
+    chat.name ??
+    `Chat with ${chat.memberIds
+      .map((memberId) => memberName(members, memberId))
+      .join(", ")}`
+  );
+}
+
+export function exportFileName(
+  chat: Chat,
+  members: Member[],
+  extension: string
+): string {
+  const slug = chatTitle(chat, members)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || chat.id}.${extension}`;
+}
+
+// Message text is already Markdown with $/$$ LaTeX, so it is written as-is
+// inside a blockquote
+export function toMarkdown(
+  { chat, messages, members }: ExportInput,
+  options: ExportOptions
+): string {
+  const lines: string[] = [`# ${chatTitle(chat, members)}`, ""];
+
+  if (chat.topic) lines.push(`- **Topic:** ${chat.topic}`);
+  lines.push(
+    `- **Members:** ${chat.memberIds
+      .map((memberId) => memberName(members, memberId))
+      .join(", ")}`,
+    `- **Created:** ${new Date(chat.createdAt).toLocaleString()}`,
+    ""
+  );
+
+  if (chat.context) {
+    lines.push("## Context", "", chat.context, "");
+  }
+
+  lines.push("## Transcript", "");
+  for (const message of exportedMessages(messages, options)) {
+    const time = new Date(message.createdAt).toLocaleString();
+    if (message.type === "SYSTEM") {
+      lines.push(`*${message.content.text}* (${time})`, "");
+    } else {
+      lines.push(
+        `### ${memberName(members, message.senderId)} · ${time}`,
+        "",
+        quoteMarkdown(messageMarkdown(message)),
+        ""
+      );
+    }
+  }
+
+  if (chat.conclusion) {
+    lines.push("## Conclusion", "", chat.conclusion, "");
+  }
+
+  return lines.join("\n");
+}
+
+export function toJson(
+  { chat, messages, members }: ExportInput,
+  options: ExportOptions
+): string {
+  const transcript: ChatTranscript = {
+    format: "socmind.chat",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    chat,
+    members: members.filter((member) => chat.memberIds.includes(member.id)),
+    messages: exportedMessages(messages, options),
+  };
+  return JSON.stringify(transcript, null, 2);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Minimal hast shape; only element properties are checked
+interface HtmlNode {
+  type: string;
+  properties?: Record<string, unknown>;
+  children?: HtmlNode[];
+}
+
+const SAFE_URL_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+// In-page anchors (e.g. GFM footnotes) stay; anything else must be an
+// absolute URL with a safe scheme. The URL parser strips the whitespace
+// and control characters browsers ignore, so "java\tscript:" is caught.
+function isSafeUrl(url: unknown): boolean {
+  if (typeof url !== "string") return false;
+  if (url.startsWith("#")) return true;
+  try {
+    return SAFE_URL_PROTOCOLS.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// rehype plugin that drops href and src attributes with unsafe URLs, so a
+// "javascript:" link in a message can't run when the file is opened
+function rehypeSafeUrls() {
+  const visit = (node: HtmlNode) => {
+    for (const name of ["href", "src"]) {
+      if (node.properties && !isSafeUrl(node.properties[name])) {
+        delete node.properties[name];
+      }
+    }
+    node.children?.forEach(visit);
+  };
+  return visit;
+}
+
+// KaTeX renders to MathML here, which browsers display natively, so the
+// file needs neither the KaTeX stylesheet nor its fonts to work offline.
+// Raw HTML inside messages is dropped by remark-rehype.
+const markdownProcessor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkMath)
+  .use(remarkRehype)
+  .use(rehypeKatex, { output: "mathml" })
+  .use(rehypeSafeUrls)
+  .use(rehypeStringify);
+
+async function markdownToHtml(text: string): Promise<string> {
+  return String(await markdownProcessor.process(text));
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111; background: #f3f4f6; }
+  h1 { color: #1b2e5c; }
+  .meta { color: #4b5563; font-size: 0.9rem; }
+  .section { background: #fff; border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 1rem 0; }
+  .message { background: #e5e7eb; border-radius: 1rem; padding: 0.25rem 0.75rem; margin: 0.75rem 0; overflow-x: auto; }
+  .sender { font-size: 0.75rem; color: #6b7280; margin-top: 1rem; }
+  .system { text-align: center; font-size: 0.75rem; color: #6b7280; margin: 0.5rem 0; }
+  pre { background: #1f2937; color: #f9fafb; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; }
+  math[display="block"] { overflow-x: auto; }
+`;
+
+export async function toHtml(
+  { chat, messages, members }: ExportInput,
+  options: ExportOptions
+): Promise<string> {
+  const parts: string[] = [];
+
+  for (const message of exportedMessages(messages, options)) {
+    const time = new Date(message.createdAt).toLocaleString();
+    if (message.type === "SYSTEM") {
+      parts.push(
+        `<div class="system">${escapeHtml(message.content.text)} · ${escapeHtml(time)}</div>`
+      );
+    } else {
+      parts.push(
+        `<div class="sender">${escapeHtml(
+          memberName(members, message.senderId)
+        )} · ${escapeHtml(time)}</div>`,
+        `<div class="message">${await markdownToHtml(messageMarkdown(message))}</div>`
+      );
+    }
+  }
+
+  const memberNames = chat.memberIds
+    .map((memberId) => memberName(members, memberId))
+    .join(", ");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(chatTitle(chat, members))}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(chatTitle(chat, members))}</h1>
+<div class="meta">
+${chat.topic ? `<div><strong>Topic:</strong> ${escapeHtml(chat.topic)}</div>` : ""}
+<div><strong>Members:</strong> ${escapeHtml(memberNames)}</div>
+<div><strong>Created:</strong> ${escapeHtml(new Date(chat.createdAt).toLocaleString())}</div>
+</div>
+${chat.context ? `<div class="section"><h2>Context</h2>${await markdownToHtml(chat.context)}</div>` : ""}
+${parts.join("\n")}
+${chat.conclusion ? `<div class="section"><h2>Conclusion</h2>${await markdownToHtml(chat.conclusion)}</div>` : ""}
+</body>
+</html>
+`;
+}
+
+// How long the object URL behind a download is kept alive
+const REVOKE_DELAY_MS = 10000;
+
+export function downloadFile(
+  fileName: string,
+  content: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download before it has started
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -0,0 +1,349 @@
+// src/lib/import.ts
+// Parsers for uploaded transcripts, the counterpart of src/lib/export.ts.
+import { ChatTranscript, Member, Message } from "@/types";
+
+export interface TranscriptEntry {
+  // Speaker label as written in the transcript; null for system notices
+  speaker: string | null;
+  text: string;
+  createdAt: string | null;
+}
+
+export interface ParsedTranscript {
+  title: string | null;
+  topic: string | null;
+  context: string | null;
+  entries: TranscriptEntry[];
+  // Display names the transcript itself gives for its speaker labels
+  speakerNames: Record<string, string>;
+}
+
+// Speaker label → member id, or null when no member matches
+export type SpeakerMapping = Record<string, string | null>;
+
+function parseDate(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function isChatTranscript(data: unknown): data is ChatTranscript {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as ChatTranscript).format === "socmind.chat"
+  );
+}
+
+function fromChatTranscript(transcript: ChatTranscript): ParsedTranscript {
+  const speakerNames: Record<string, string> = {};
+  for (const member of transcript.members ?? []) {
+    speakerNames[member.id] = member.name;
+  }
+
+  return {
+    title: transcript.chat.name,
+    topic: transcript.chat.topic,
+    context: transcript.chat.context,
+    entries: transcript.messages.map((message) => ({
+      speaker: message.type === "SYSTEM" ? null : message.senderId,
+      text: message.content.text,
+      createdAt: message.createdAt,
+    })),
+    speakerNames,
+  };
+}
+
+// Loose shape used by other tools: [{ speaker|sender|name|role, text|content }]
+function fromGenericJson(data: unknown): ParsedTranscript {
+  const list = Array.isArray(data)
+    ? data
+    : (data as { messages?: unknown })?.messages;
+  if (!Array.isArray(list)) {
+    throw new Error("JSON transcript must be an array of messages");
+  }
+
+  const entries = list.map((item, index): TranscriptEntry => {
+    const record = item as Record<string, unknown>;
+    const speaker =
+      record.speaker ?? record.sender ?? record.senderId ?? record.name ?? null;
+    const content = record.text ?? record.content;
+    const text =
+      typeof content === "string"
+        ? content
+        : (content as { text?: unknown } | undefined)?.text;
+
+    if (typeof text !== "string") {
+      throw new Error(`Message ${index + 1} has no text`);
+    }
+
+    return {
+      speaker: typeof speaker === "string" ? speaker : null,
+      text,
+      createdAt: parseDate(record.createdAt ?? record.timestamp),
+    };
+  });
+
+  const meta = Array.isArray(data) ? {} : (data as Record<string, unknown>);
+  return {
+    title: typeof meta.title === "string" ? meta.title : null,
+    topic: typeof meta.topic === "string" ? meta.topic : null,
+    context: typeof meta.context === "string" ? meta.context : null,
+    entries,
+    speakerNames: {},
+  };
+}
+
+// Entry headings always carry "· time", which keeps a "### Step 1" inside
+// an unquoted message body from being taken for a speaker
+const HEADING_ENTRY = /^###\s+(.+?)\s+·\s+(.+?)\s*$/;
+const BOLD_ENTRY = /^\*\*(.+?):\*\*\s*(.*)$/;
+const SYSTEM_ENTRY = /^\*(.+)\* \((.+)\)$/;
+const QUOTED_LINE = /^> ?(.*)$/;
+const SECTIONS = ["context", "transcript", "conclusion"];
+
+// Reads the layout written by toMarkdown(): "### Speaker · time" headings
+// followed by the message quoted, plus "**Speaker:** text" paragraphs as a
+// shorthand for hand-written transcripts. Older exports left bodies
+// unquoted, so within an entry only the exporter's own shapes, starting a
+// paragraph, count as structure.
+function fromMarkdown(text: string): ParsedTranscript {
+  const parsed: ParsedTranscript = {
+    title: null,
+    topic: null,
+    context: null,
+    entries: [],
+    speakerNames: {},
+  };
+  let section: "header" | "context" | "transcript" | "other" = "header";
+  const contextLines: string[] = [];
+  let current: TranscriptEntry | null = null;
+  // Whether the current entry was opened by a heading (its body follows) or
+  // a bold label (its body starts on the same line)
+  let currentIsHeading = false;
+  // Whether the current entry's body is quoted; null until its first line
+  let quotedBody: boolean | null = null;
+  const bodyLines: string[] = [];
+  let previousLine = "";
+
+  const flush = () => {
+    if (current) {
+      current.text = bodyLines.join("\n").trim();
+      parsed.entries.push(current);
+    }
+    current = null;
+    currentIsHeading = false;
+    bodyLines.length = 0;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const startsParagraph = !previousLine.trim();
+    previousLine = line;
+
+    if (/^# /.test(line) && parsed.title === null) {
+      parsed.title = line.slice(2).trim();
+      continue;
+    }
+
+    const quoted = line.match(QUOTED_LINE);
+    if (quoted && current && section === "transcript" && quotedBody !== false) {
+      quotedBody = true;
+      bodyLines.push(quoted[1]);
+      continue;
+    }
+
+    const sectionHeading = startsParagraph && line.match(/^##\s+(.+?)\s*$/);
+    const sectionName = sectionHeading ? sectionHeading[1].toLowerCase() : "";
+    // Any other "##" heading inside a message is part of its text
+    if (sectionHeading && (!current || SECTIONS.includes(sectionName))) {
+      flush();
+      section =
+        sectionName === "context"
+          ? "context"
+          : sectionName === "transcript"
+            ? "transcript"
+            : "other";
+      continue;
+    }
+
+    if (section === "header") {
+      const topic = line.match(/^- \*\*Topic:\*\*\s*(.+)$/);
+      if (topic) {
+        parsed.topic = topic[1].trim();
+        continue;
+      }
+      // A transcript without sections starts at its first speaker
+      if (HEADING_ENTRY.test(line) || BOLD_ENTRY.test(line)) {
+        section = "transcript";
+      } else {
+        continue;
+      }
+    }
+
+    if (section === "context") {
+      contextLines.push(line);
+      continue;
+    }
+    if (section !== "transcript") continue;
+
+    const heading = startsParagraph && line.match(HEADING_ENTRY);
+    // Bold labels inside a heading entry are emphasis, not speakers
+    const bold = startsParagraph && !currentIsHeading && line.match(BOLD_ENTRY);
+    const system = startsParagraph && line.match(SYSTEM_ENTRY);
+    if (heading) {
+      flush();
+      current = {
+        speaker: heading[1].trim(),
+        text: "",
+        createdAt: parseDate(heading[2]),
+      };
+      currentIsHeading = true;
+      quotedBody = null;
+    } else if (bold) {
+      flush();
+      current = { speaker: bold[1].trim(), text: "", createdAt: null };
+      currentIsHeading = false;
+      quotedBody = false;
+      bodyLines.push(bold[2]);
+    } else if (system) {
+      flush();
+      parsed.entries.push({
+        speaker: null,
+        text: system[1],
+        createdAt: parseDate(system[2]),
+      });
+    } else if (current) {
+      if (line.trim() && quotedBody === null) quotedBody = false;
+      bodyLines.push(line);
+    }
+  }
+  flush();
+
+  parsed.context = contextLines.join("\n").trim() || null;
+  return parsed;
+}
+
+export function parseTranscript(
+  content: string,
+  fileName: string
+): ParsedTranscript {
+  const isJson =
+    fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(content);
+
+  let parsed: ParsedTranscript;
+  if (isJson) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error("File is not valid JSON");
+    }
+    parsed = isChatTranscript(data)
+      ? fromChatTranscript(data)
+      : fromGenericJson(data);
+  } else {
+    parsed = fromMarkdown(content);
+  }
+
+  if (parsed.entries.length === 0) {
+    throw new Error("No messages found in the transcript");
+  }
+  return parsed;
+}
+
+export function transcriptSpeakers(transcript: ParsedTranscript): string[] {
+  const speakers = new Set<string>();
+  for (const entry of transcript.entries) {
+    if (entry.speaker) speakers.add(entry.speaker);
+  }
+  return Array.from(speakers);
+}
+
+// Match each speaker by member id, then email, then (case-insensitive) name,
+// also trying the display name the transcript gives for the label
+export function resolveSpeakers(
+  transcript: ParsedTranscript,
+  members: Member[]
+): SpeakerMapping {
+  const mapping: SpeakerMapping = {};
+
+  for (const speaker of transcriptSpeakers(transcript)) {
+    const candidates = [speaker, transcript.speakerNames[speaker]]
+      .filter((label): label is string => !!label)
+      .map((label) => label.trim().toLowerCase());
+
+    const match =
+      members.find((member) => member.id === speaker) ??
+      members.find(
+        (member) =>
+          !!member.email && candidates.includes(member.email.toLowerCase())
+      ) ??
+      members.find((member) =>
+        candidates.includes(member.name.trim().toLowerCase())
+      );
+
+    mapping[speaker] = match?.id ?? null;
+  }
+
+  return mapping;
+}
+
+function speakerLabel(
+  transcript: ParsedTranscript,
+  mapping: SpeakerMapping,
+  members: Member[],
+  speaker: string
+): string {
+  const memberId = mapping[speaker];
+  return (
+    members.find((member) => member.id === memberId)?.name ??
+    transcript.speakerNames[speaker] ??
+    speaker
+  );
+}
+
+// Opening context for a chat that continues the imported conversation
+export function buildImportedContext(
+  transcript: ParsedTranscript,
+  mapping: SpeakerMapping,
+  members: Member[]
+): string {
+  const lines: string[] = [];
+  if (transcript.context) {
+    lines.push(transcript.context, "");
+  }
+
+  lines.push("## Previous conversation", "");
+  for (const entry of transcript.entries) {
+    if (entry.speaker === null) {
+      lines.push(`*${entry.text}*`, "");
+    } else {
+      lines.push(
+        `**${speakerLabel(transcript, mapping, members, entry.speaker)}:** ${
+          entry.text
+        }`,
+        ""
+      );
+    }
+  }
+
+  return lines.join("\n").trim();
+}
+
+// Messages for the read-only replay viewer; unresolved speakers keep their
+// transcript label as sender
+export function toReplayMessages(
+  transcript: ParsedTranscript,
+  mapping: SpeakerMapping
+): Message[] {
+  const start = Date.now();
+  return transcript.entries.map((entry, index) => ({
+    id: `replay-${index}`,
+    chatId: "replay",
+    content: { text: entry.text },
+    senderId:
+      entry.speaker === null ? null : (mapping[entry.speaker] ?? entry.speaker),
+    createdAt: entry.createdAt ?? new Date(start + index).toISOString(),
+    type: entry.speaker === null ? "SYSTEM" : "MEMBER",
+  }));
+}
@@ -0,0 +1,29 @@
+// src/lib/memberEvents.ts
+// Lets views that cache the member list (e.g. the Sidebar's picker) refresh
+// as soon as agents are created, edited or deleted, including in other tabs.
+
+const CHANNEL_NAME = "socmind.members";
+const EVENT_NAME = "socmind:membersChanged";
+
+export function notifyMembersChanged(): void {
+  window.dispatchEvent(new Event(EVENT_NAME));
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.postMessage("changed");
+    channel.close();
+  }
+}
+
+export function subscribeToMembersChanged(listener: () => void): () => void {
+  window.addEventListener(EVENT_NAME, listener);
+  const channel =
+    typeof BroadcastChannel !== "undefined"
+      ? new BroadcastChannel(CHANNEL_NAME)
+      : null;
+  channel?.addEventListener("message", listener);
+
+  return () => {
+    window.removeEventListener(EVENT_NAME, listener);
+    channel?.close();
+  };
+}
@@ -0,0 +1,36 @@
+// src/lib/members.ts
+// Background colors for member avatars, dark enough for white initials
+const MEMBER_COLORS = [
+  "#2563eb",
+  "#7c3aed",
+  "#db2777",
+  "#dc2626",
+  "#ea580c",
+  "#ca8a04",
+  "#16a34a",
+  "#0d9488",
+  "#0891b2",
+  "#4f46e5",
+  "#9333ea",
+  "#65a30d",
+];
+
+// Hashes the id rather than the name so a member keeps its color when renamed
+export function memberColor(memberId: string): string {
+  let hash = 0;
+  for (let i = 0; i < memberId.length; i++) {
+    hash = (hash * 31 + memberId.charCodeAt(i)) | 0;
+  }
+  return MEMBER_COLORS[Math.abs(hash) % MEMBER_COLORS.length];
+}
+
+export function memberInitials(name: string): string {
+  const words = name
+    .trim()
+    .split(/[\s_.-]+/)
+    .filter(Boolean);
+  if (words.length >= 2) {
+    return (words[0][0] + words[1][0]).toUpperCase();
+  }
+  return name.trim().slice(0, 2).toUpperCase();
+}
@@ -0,0 +1,122 @@
+// src/lib/mentions.ts
+// Mentions are written as "@<member id>" in the message text; the ids they
+// resolve to are sent alongside the text as Message.mentions.
+
+// "@" at the start of the text or after whitespace, up to the next space
+const MENTION_TOKEN = /(^|\s)@(\S+)/g;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]'"]+$/;
+
+interface MentionMatch {
+  // Offset of the "@" and length of the mention including it
+  index: number;
+  length: number;
+  memberId: string;
+}
+
+function findMentions(text: string, memberIds: string[]): MentionMatch[] {
+  const matches: MentionMatch[] = [];
+  for (const match of Array.from(text.matchAll(MENTION_TOKEN))) {
+    // "@ada." at the end of a sentence still mentions "ada"
+    let token = match[2];
+    while (token && !memberIds.includes(token)) {
+      const stripped = token.replace(TRAILING_PUNCTUATION, "");
+      token = stripped === token ? "" : stripped;
+    }
+    if (token) {
+      matches.push({
+        index: (match.index ?? 0) + match[1].length,
+        length: token.length + 1,
+        memberId: token,
+      });
+    }
+  }
+  return matches;
+}
+
+// Ids of the given members mentioned in the text, in order of appearance
+export function extractMentions(text: string, memberIds: string[]): string[] {
+  return Array.from(
+    new Set(findMentions(text, memberIds).map(({ memberId }) => memberId))
+  );
+}
+
+// The "@query" being typed just before the caret, if any
+export function findMentionQuery(
+  text: string,
+  caret: number
+): { query: string; start: number } | null {
+  const match = text.slice(0, caret).match(/(?:^|\s)@([^\s@]*)$/);
+  if (!match) return null;
+  return { query: match[1], start: caret - match[1].length - 1 };
+}
+
+// Minimal mdast shapes; only text nodes are rewritten
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: Record<string, unknown>;
+}
+
+function splitMentions(
+  node: MarkdownNode,
+  memberIds: string[],
+  memberName: (memberId: string) => string,
+  className: string
+): MarkdownNode[] {
+  const text = node.value ?? "";
+  const nodes: MarkdownNode[] = [];
+  let offset = 0;
+
+  for (const { index, length, memberId } of findMentions(text, memberIds)) {
+    if (index > offset) {
+      nodes.push({ type: "text", value: text.slice(offset, index) });
+    }
+    nodes.push({
+      type: "mention",
+      data: {
+        hName: "span",
+        hProperties: { className, "data-member-id": memberId },
+        hChildren: [{ type: "text", value: `@${memberName(memberId)}` }],
+      },
+    });
+    offset = index + length;
+  }
+
+  if (offset === 0) return [node];
+  if (offset < text.length) {
+    nodes.push({ type: "text", value: text.slice(offset) });
+  }
+  return nodes;
+}
+
+// remark plugin that replaces mentions of the given ids with a highlighted
+// span showing the member's name; the id is kept as its data-member-id.
+// Code, inline code and math nodes have no text children, so they are left
+// untouched.
+export function remarkMentions({
+  memberIds,
+  memberName,
+  className,
+}: {
+  memberIds: string[];
+  memberName: (memberId: string) => string;
+  className: string;
+}) {
+  const visit = (node: MarkdownNode) => {
+    if (!node.children) return;
+    node.children = node.children.flatMap((child) => {
+      if (child.type === "text") {
+        return splitMentions(child, memberIds, memberName, className);
+      }
+      visit(child);
+      return [child];
+    });
+  };
+
+  return (tree: MarkdownNode) => {
+    if (memberIds.length > 0) {
+      visit(tree);
+    }
+  };
+}
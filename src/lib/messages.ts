@@ -0,0 +1,81 @@
+// src/lib/messages.ts
+import { Chat, Message } from "@/types";
+
+// Insert a message or replace the local copy it supersedes (matched by id or
+// by the clientId of an optimistic send), keeping its position in the list.
+export function upsertMessage(
+  messages: Message[],
+  message: Message
+): Message[] {
+  const matches = (existing: Message) =>
+    existing.id === message.id ||
+    (!!message.clientId && existing.id === message.clientId);
+  const index = messages.findIndex(matches);
+  if (index === -1) {
+    return [...messages, message];
+  }
+  return [
+    ...messages.slice(0, index),
+    message,
+    ...messages.slice(index + 1).filter((existing) => !matches(existing)),
+  ];
+}
+
+// Apply a server-side change (edit, reaction, regeneration) to a message we
+// already hold; messages outside the loaded history are left alone
+export function replaceMessage(
+  messages: Message[],
+  message: Message
+): Message[] {
+  if (!messages.some((existing) => existing.id === message.id)) {
+    return messages;
+  }
+  return messages.map((existing) =>
+    existing.id === message.id ? message : existing
+  );
+}
+
+// Merge messages fetched after the fact (e.g. missed while disconnected).
+// Known messages are replaced in place; unknown ones are slotted in by
+// createdAt without moving anything already in the list.
+export function mergeMessages(
+  messages: Message[],
+  incoming: Message[]
+): Message[] {
+  let merged = messages;
+  for (const message of incoming) {
+    const known = merged.some(
+      (existing) =>
+        existing.id === message.id ||
+        (!!message.clientId && existing.id === message.clientId)
+    );
+    if (known) {
+      merged = upsertMessage(merged, message);
+      continue;
+    }
+    let insertAt = merged.length;
+    while (insertAt > 0 && merged[insertAt - 1].createdAt > message.createdAt) {
+      insertAt--;
+    }
+    merged = [...merged.slice(0, insertAt), message, ...merged.slice(insertAt)];
+  }
+  return merged;
+}
+
+// The incoming list is the complete current one: known chats are updated in
+// place, chats missing from it (deleted meanwhile) dropped and new ones
+// appended
+export function mergeChats(chats: Chat[], incoming: Chat[]): Chat[] {
+  const incomingById = new Map(incoming.map((chat) => [chat.id, chat]));
+  const merged = chats.flatMap((chat) => {
+    const update = incomingById.get(chat.id);
+    return update ? [{ ...chat, ...update }] : [];
+  });
+  const knownIds = new Set(chats.map((chat) => chat.id));
+  return [...merged, ...incoming.filter((chat) => !knownIds.has(chat.id))];
+}
+
+// Only messages the server has confirmed count towards what we've seen
+export function isServerMessage(message: Message): boolean {
+  return message.status === undefined || message.status === "sent";
+}
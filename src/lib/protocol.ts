@@ -0,0 +1,492 @@
+// src/lib/protocol.ts
+// The socket.io protocol spoken with the server: its version, runtime checks
+// for everything the server sends, and typed helpers for listening and
+// making requests. Payloads that fail the checks are reported and dropped
+// (for lists, just the items that fail) so they never reach the UI.
+import { Socket } from "socket.io-client";
+import {
+  Chat,
+  ChatHistoryPage,
+  ClientToServerEvents,
+  DeleteMessageAck,
+  HandshakeAck,
+  MemberActivityEvent,
+  Message,
+  MessageActionAck,
+  MessageAlternative,
+  MessageContent,
+  MessageDeleted,
+  MessagePart,
+  MessageStreamChunk,
+  MessageStreamEnd,
+  MessageStreamStart,
+  OrchestrationAck,
+  OrchestrationState,
+  SendMessageAck,
+  ServerToClientEvents,
+  SyncResponse,
+  ThreadReplies,
+} from "@/types";
+import { isSafeAttachmentUrl } from "./attachments";
+
+// Bump together with the server whenever an event or payload changes shape
+export const PROTOCOL_VERSION = 1;
+
+const HANDSHAKE_ACK_TIMEOUT_MS = 10000;
+
+export type ProtocolSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+type TimeoutSocket = ReturnType<ProtocolSocket["timeout"]>;
+
+export type ServerEvent = keyof ServerToClientEvents;
+export type ServerPayload<E extends ServerEvent> = Parameters<
+  ServerToClientEvents[E]
+>[0];
+
+export type RequestEvent = keyof ClientToServerEvents;
+export type RequestPayload<E extends RequestEvent> = Parameters<
+  ClientToServerEvents[E]
+>[0];
+export type RequestAck<E extends RequestEvent> = Parameters<
+  Parameters<ClientToServerEvents[E]>[1]
+>[0];
+
+// Guards
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString: Guard<string> = (value): value is string =>
+  typeof value === "string";
+
+const isNumber: Guard<number> = (value): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isAttachmentUrl: Guard<string> = (value): value is string =>
+  isString(value) && isSafeAttachmentUrl(value);
+
+const isBoolean: Guard<boolean> = (value): value is boolean =>
+  typeof value === "boolean";
+
+const literal =
+  <T extends string | number | boolean>(...values: T[]): Guard<T> =>
+  (value): value is T =>
+    values.includes(value as T);
+
+const nullable =
+  <T>(guard: Guard<T>): Guard<T | null> =>
+  (value): value is T | null =>
+    value === null || guard(value);
+
+const optional =
+  <T>(guard: Guard<T>): Guard<T | undefined> =>
+  (value): value is T | undefined =>
+    value === undefined || guard(value);
+
+const arrayOf =
+  <T>(guard: Guard<T>): Guard<T[]> =>
+  (value): value is T[] =>
+    Array.isArray(value) && value.every(guard);
+
+const recordOf =
+  <T>(guard: Guard<T>): Guard<Record<string, T>> =>
+  (value): value is Record<string, T> =>
+    isRecord(value) && Object.values(value).every(guard);
+
+const oneOf =
+  <T>(...guards: Guard<T>[]): Guard<T> =>
+  (value): value is T =>
+    guards.some((guard) => guard(value));
+
+type Fields<T> = { [K in keyof T]-?: Guard<T[K]> };
+
+// Unknown extra fields are allowed so the server can add to a payload
+// without breaking older clients
+const shape =
+  <T>(fields: Fields<T>): Guard<T> =>
+  (value): value is T =>
+    isRecord(value) &&
+    Object.entries(fields).every(([key, guard]) =>
+      (guard as Guard<unknown>)(value[key])
+    );
+
+const isMessagePart: Guard<MessagePart> = oneOf<MessagePart>(
+  shape({ type: literal("text"), text: isString }),
+  shape({
+    type: literal("image", "file"),
+    url: isAttachmentUrl,
+    name: isString,
+    mimeType: isString,
+    size: isNumber,
+  })
+);
+
+const isMessageContent = shape<MessageContent>({
+  text: isString,
+  parts: optional(arrayOf(isMessagePart)),
+});
+
+const isMessageAlternative = shape<MessageAlternative>({
+  text: isString,
+  createdAt: isString,
+});
+
+export const isMessage = shape<Message>({
+  id: isString,
+  content: isMessageContent,
+  senderId: nullable(isString),
+  chatId: isString,
+  createdAt: isString,
+  type: literal("MEMBER", "SYSTEM"),
+  clientId: optional(isString),
+  status: optional(literal("pending", "sent", "failed")),
+  mentions: optional(arrayOf(isString)),
+  onlyMentionedReply: optional(isBoolean),
+  editedAt: optional(isString),
+  reactions: optional(recordOf(arrayOf(isString))),
+  alternatives: optional(arrayOf(isMessageAlternative)),
+  selectedAlternative: optional(isNumber),
+  replyToId: optional(nullable(isString)),
+});
+
+const chatFields: Fields<Chat> = {
+  id: isString,
+  name: nullable(isString),
+  context: nullable(isString),
+  creator: nullable(isString),
+  topic: nullable(isString),
+  conclusion: nullable(isString),
+  createdAt: isString,
+  updatedAt: isString,
+  memberIds: arrayOf(isString),
+  latestMessage: optional(isMessage),
+  isPinned: optional(isBoolean),
+  isArchived: optional(isBoolean),
+  isConcluded: optional(isBoolean),
+};
+
+export const isChat = shape<Chat>(chatFields);
+
+// chatUpdated may carry only the fields that changed
+const isChatUpdate = (
+  value: unknown
+): value is Partial<Chat> & { id: string } =>
+  isRecord(value) &&
+  isString(value.id) &&
+  Object.entries(chatFields).every(
+    ([key, guard]) => !(key in value) || (guard as Guard<unknown>)(value[key])
+  );
+
+const isOrchestrationState = shape<OrchestrationState>({
+  chatId: isString,
+  speakerSelection: literal("round-robin", "random", "manual"),
+  nextSpeakerId: nullable(isString),
+  maxTurnsPerRound: nullable(isNumber),
+  maxTokensPerRound: nullable(isNumber),
+  isPaused: isBoolean,
+  turnsThisRound: isNumber,
+  tokensThisRound: isNumber,
+});
+
+const isFailureAck = shape<{ ok: false; error: string }>({
+  ok: literal(false),
+  error: isString,
+});
+
+// Sending and every message action are answered the same way
+const isMessageAck: Guard<SendMessageAck | MessageActionAck> = oneOf<
+  SendMessageAck | MessageActionAck
+>(shape({ ok: literal(true), message: isMessage }), isFailureAck);
+
+const isOrchestrationAck: Guard<OrchestrationAck> = oneOf<OrchestrationAck>(
+  shape({ ok: literal(true), state: isOrchestrationState }),
+  isFailureAck
+);
+
+// Issues
+
+export interface ProtocolIssue {
+  kind: "malformed-payload" | "handler-error" | "version-mismatch";
+  event: string;
+  message: string;
+}
+
+const issueListeners = new Set<(issue: ProtocolIssue) => void>();
+
+export function reportProtocolIssue(issue: ProtocolIssue): void {
+  console.error(`Socket protocol issue (${issue.event}):`, issue.message);
+  issueListeners.forEach((listener) => listener(issue));
+}
+
+export function subscribeToProtocolIssues(
+  listener: (issue: ProtocolIssue) => void
+): () => void {
+  issueListeners.add(listener);
+  return () => issueListeners.delete(listener);
+}
+
+function describePayload(payload: unknown): string {
+  const json = JSON.stringify(payload) ?? String(payload);
+  return json.length > 200 ? `${json.slice(0, 200)}…` : json;
+}
+
+// Decoders
+
+// Turns a payload into the value handed to the app, or null when it can't
+// be used at all
+type Decoder<T> = (value: unknown, event: string) => T | null;
+
+const whole =
+  <T>(guard: Guard<T>): Decoder<T> =>
+  (value) =>
+    guard(value) ? value : null;
+
+// Lists keep their valid items and report each one dropped, so a single
+// bad chat or message doesn't cost the rest
+function validItems<T>(
+  items: unknown[],
+  guard: Guard<T>,
+  event: string,
+  label: string
+): T[] {
+  return items.filter((item): item is T => {
+    if (guard(item)) return true;
+    reportProtocolIssue({
+      kind: "malformed-payload",
+      event,
+      message: `Dropped malformed ${label} from ${event}: ${describePayload(item)}`,
+    });
+    return false;
+  });
+}
+
+const listOf =
+  <T>(guard: Guard<T>, label: string): Decoder<T[]> =>
+  (value, event) =>
+    Array.isArray(value) ? validItems(value, guard, event, label) : null;
+
+const serverEventDecoders: {
+  [E in ServerEvent]: Decoder<ServerPayload<E>>;
+} = {
+  initialData: listOf(isChat, "chat"),
+  newChat: whole(isChat),
+  chatUpdated: whole(isChatUpdate),
+  chatDeleted: whole(shape({ chatId: isString })),
+  newMessage: whole(isMessage),
+  messageUpdated: whole(isMessage),
+  messageDeleted: whole(
+    shape<MessageDeleted>({
+      chatId: isString,
+      messageId: isString,
+    })
+  ),
+  messageStart: whole(
+    shape<MessageStreamStart>({
+      messageId: isString,
+      chatId: isString,
+      senderId: nullable(isString),
+      createdAt: optional(isString),
+    })
+  ),
+  messageChunk: whole(
+    shape<MessageStreamChunk>({
+      messageId: isString,
+      chatId: isString,
+      delta: isString,
+    })
+  ),
+  messageEnd: whole(
+    shape<MessageStreamEnd>({
+      messageId: isString,
+      chatId: isString,
+    })
+  ),
+  memberActivity: whole(
+    shape<MemberActivityEvent>({
+      chatId: isString,
+      memberId: isString,
+      activity: literal("typing", "thinking", "idle"),
+      startedAt: optional(isString),
+    })
+  ),
+  orchestrationUpdated: whole(isOrchestrationState),
+};
+
+const ackDecoders: { [E in RequestEvent]: Decoder<RequestAck<E>> } = {
+  handshake: whole(shape<HandshakeAck>({ protocolVersion: isNumber })),
+  sync: (value, event): SyncResponse | null =>
+    isRecord(value) &&
+    Array.isArray(value.chats) &&
+    Array.isArray(value.messages)
+      ? {
+          chats: validItems(value.chats, isChat, event, "chat"),
+          messages: validItems(value.messages, isMessage, event, "message"),
+        }
+      : null,
+  chatHistory: (value, event): ChatHistoryPage | null =>
+    isRecord(value) &&
+    isString(value.chatId) &&
+    isBoolean(value.hasMore) &&
+    Array.isArray(value.messages)
+      ? {
+          chatId: value.chatId,
+          messages: validItems(value.messages, isMessage, event, "message"),
+          hasMore: value.hasMore,
+        }
+      : null,
+  threadReplies: (value, event): ThreadReplies | null =>
+    isRecord(value) &&
+    isString(value.chatId) &&
+    isString(value.messageId) &&
+    Array.isArray(value.replies)
+      ? {
+          chatId: value.chatId,
+          messageId: value.messageId,
+          replies: validItems(value.replies, isMessage, event, "reply"),
+        }
+      : null,
+  sendMessage: whole(isMessageAck),
+  editMessage: whole(isMessageAck),
+  regenerateMessage: whole(isMessageAck),
+  selectAlternative: whole(isMessageAck),
+  toggleReaction: whole(isMessageAck),
+  deleteMessage: whole(
+    oneOf<DeleteMessageAck>(shape({ ok: literal(true) }), isFailureAck)
+  ),
+  getOrchestration: whole(isOrchestrationAck),
+  pauseChat: whole(isOrchestrationAck),
+  resumeChat: whole(isOrchestrationAck),
+  updateOrchestration: whole(isOrchestrationAck),
+};
+
+// Events and requests
+
+// One typed emit per request, so each payload is checked against the event
+// map where it is sent
+const requestEmitters: {
+  [E in RequestEvent]: (
+    socket: TimeoutSocket,
+    payload: RequestPayload<E>
+  ) => Promise<unknown>;
+} = {
+  handshake: (socket, payload) => socket.emitWithAck("handshake", payload),
+  sync: (socket, payload) => socket.emitWithAck("sync", payload),
+  chatHistory: (socket, payload) => socket.emitWithAck("chatHistory", payload),
+  threadReplies: (socket, payload) =>
+    socket.emitWithAck("threadReplies", payload),
+  sendMessage: (socket, payload) => socket.emitWithAck("sendMessage", payload),
+  editMessage: (socket, payload) => socket.emitWithAck("editMessage", payload),
+  regenerateMessage: (socket, payload) =>
+    socket.emitWithAck("regenerateMessage", payload),
+  selectAlternative: (socket, payload) =>
+    socket.emitWithAck("selectAlternative", payload),
+  toggleReaction: (socket, payload) =>
+    socket.emitWithAck("toggleReaction", payload),
+  deleteMessage: (socket, payload) =>
+    socket.emitWithAck("deleteMessage", payload),
+  getOrchestration: (socket, payload) =>
+    socket.emitWithAck("getOrchestration", payload),
+  pauseChat: (socket, payload) => socket.emitWithAck("pauseChat", payload),
+  resumeChat: (socket, payload) => socket.emitWithAck("resumeChat", payload),
+  updateOrchestration: (socket, payload) =>
+    socket.emitWithAck("updateOrchestration", payload),
+};
+
+/**
+ * Listen for a server event. Payloads that don't match the protocol, and
+ * errors thrown while handling one, are reported instead of propagating.
+ * Returns the function that stops listening.
+ */
+export function onServerEvent<E extends ServerEvent>(
+  socket: ProtocolSocket,
+  event: E,
+  handler: (payload: ServerPayload<E>) => void
+): () => void {
+  // Accepts anything, since what arrives is only trusted once decoded
+  const listener: ServerToClientEvents[ServerEvent] = (value: unknown) => {
+    const payload = serverEventDecoders[event](value, event);
+    if (payload === null) {
+      reportProtocolIssue({
+        kind: "malformed-payload",
+        event,
+        message: `Ignored malformed ${event} event: ${describePayload(value)}`,
+      });
+      return;
+    }
+    try {
+      handler(payload);
+    } catch (error) {
+      reportProtocolIssue({
+        kind: "handler-error",
+        event,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  socket.on<ServerEvent>(event, listener);
+  return () => {
+    socket.off<ServerEvent>(event, listener);
+  };
+}
+
+/**
+ * Send a request and wait for its acknowledgement. Rejects on timeout and
+ * when the server's response doesn't match the protocol.
+ */
+export async function request<E extends RequestEvent>(
+  socket: ProtocolSocket,
+  event: E,
+  payload: RequestPayload<E>,
+  timeoutMs: number
+): Promise<RequestAck<E>> {
+  const response = await requestEmitters[event](
+    socket.timeout(timeoutMs),
+    payload
+  );
+
+  const ack = ackDecoders[event](response, event);
+  if (ack === null) {
+    reportProtocolIssue({
+      kind: "malformed-payload",
+      event,
+      message: `Malformed response to ${event}: ${describePayload(response)}`,
+    });
+    throw new Error(`Malformed response to ${event}`);
+  }
+  return ack;
+}
+
+/**
+ * Confirm the server speaks this client's protocol version, reporting a
+ * mismatch (or a server too old to answer) as a protocol issue
+ */
+export async function checkProtocolVersion(
+  socket: ProtocolSocket
+): Promise<void> {
+  try {
+    const { protocolVersion } = await request(
+      socket,
+      "handshake",
+      { protocolVersion: PROTOCOL_VERSION },
+      HANDSHAKE_ACK_TIMEOUT_MS
+    );
+    if (protocolVersion !== PROTOCOL_VERSION) {
+      reportProtocolIssue({
+        kind: "version-mismatch",
+        event: "handshake",
+        message: `The server speaks protocol version ${protocolVersion}, but this app expects version ${PROTOCOL_VERSION}.`,
+      });
+    }
+  } catch (error) {
+    console.error("Protocol handshake failed:", error);
+    // The next connection will try again
+    if (!socket.connected) return;
+    reportProtocolIssue({
+      kind: "version-mismatch",
+      event: "handshake",
+      message: "The server did not confirm which protocol version it speaks.",
+    });
+  }
+}
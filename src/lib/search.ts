@@ -0,0 +1,43 @@
+// src/lib/search.ts
+
+export interface HighlightPart {
+  text: string;
+  isMatch: boolean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Split text into alternating plain and matching parts (case-insensitive)
+export function highlightParts(text: string, query: string): HighlightPart[] {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return [{ text, isMatch: false }];
+  }
+
+  const pattern = new RegExp(`(${escapeRegExp(trimmed)})`, "gi");
+  return text
+    .split(pattern)
+    .filter((part) => part !== "")
+    .map((part) => ({
+      text: part,
+      isMatch: part.toLowerCase() === trimmed.toLowerCase(),
+    }));
+}
+
+// Cut a window of text around the first match so long messages still show
+// the hit; ellipses mark where the text was trimmed.
+export function buildSnippet(text: string, query: string, radius = 60): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const index = flat.toLowerCase().indexOf(query.trim().toLowerCase());
+  if (index === -1 || flat.length <= radius * 2) {
+    return flat.length > radius * 2 ? `${flat.slice(0, radius * 2)}…` : flat;
+  }
+
+  const start = Math.max(0, index - radius);
+  const end = Math.min(flat.length, index + query.trim().length + radius);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${
+    end < flat.length ? "…" : ""
+  }`;
+}
@@ -0,0 +1,441 @@
+// src/store/chatStore.ts
+import { useSyncExternalStore } from "react";
+import { Chat, Member, Message, MessageDeleted } from "@/types";
+import {
+  isServerMessage,
+  mergeChats,
+  mergeMessages,
+  replaceMessage,
+  upsertMessage,
+} from "@/lib/messages";
+
+// Messages held for one chat, oldest first
+export interface ChatHistory {
+  messages: Message[];
+  hasMore: boolean;
+  // The latest page has arrived; until then hasMore is only a placeholder
+  hasFirstPage: boolean;
+  // A page is being fetched for this chat
+  isLoading: boolean;
+}
+
+export interface ChatStoreState {
+  // Chat ids in the order the server sent them
+  chatIds: string[];
+  chatsById: Record<string, Chat>;
+  // Only chats that have been opened have a history; it is kept when
+  // switching away so reopening the chat is instant
+  historiesByChat: Record<string, ChatHistory>;
+  // Latest server-confirmed message received for each chat, which a resync
+  // asks the server to continue from; kept here so it outlives the page
+  lastSeenByChat: Record<string, Message>;
+  memberIds: string[];
+  membersById: Record<string, Member>;
+  selectedChatId: string | null;
+  isLoadingChats: boolean;
+}
+
+const initialState: ChatStoreState = {
+  chatIds: [],
+  chatsById: {},
+  historiesByChat: {},
+  lastSeenByChat: {},
+  memberIds: [],
+  membersById: {},
+  selectedChatId: null,
+  isLoadingChats: true,
+};
+
+let state = initialState;
+const listeners = new Set<() => void>();
+
+function setState(update: (prev: ChatStoreState) => ChatStoreState): void {
+  const next = update(state);
+  if (next === state) return;
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// The records are keyed by ids from the server, so lookups skip inherited
+// properties; otherwise an id like "constructor" would find Object
+export function ownEntry<T>(
+  record: Record<string, T>,
+  key: string
+): T | undefined {
+  return Object.hasOwn(record, key) ? record[key] : undefined;
+}
+
+export function getChatStoreState(): ChatStoreState {
+  return state;
+}
+
+// Selectors must return the same value for the same state (see selectors.ts)
+export function useChatStore<T>(selector: (state: ChatStoreState) => T): T {
+  return useSyncExternalStore(
+    subscribe,
+    () => selector(state),
+    () => selector(initialState)
+  );
+}
+
+// Only the entries for chats that are still listed
+function forChats<T>(
+  record: Record<string, T>,
+  chatsById: Record<string, Chat>
+): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([chatId]) =>
+      Object.hasOwn(chatsById, chatId)
+    )
+  );
+}
+
+// Replace the chat list, forgetting the histories and selection of chats
+// that are no longer in it
+function withChats(prev: ChatStoreState, chats: Chat[]): ChatStoreState {
+  const chatsById = Object.fromEntries(chats.map((chat) => [chat.id, chat]));
+  return {
+    ...prev,
+    chatIds: chats.map((chat) => chat.id),
+    chatsById,
+    historiesByChat: forChats(prev.historiesByChat, chatsById),
+    lastSeenByChat: forChats(prev.lastSeenByChat, chatsById),
+    selectedChatId:
+      prev.selectedChatId && Object.hasOwn(chatsById, prev.selectedChatId)
+        ? prev.selectedChatId
+        : null,
+    isLoadingChats: false,
+  };
+}
+
+function patchChat(
+  prev: ChatStoreState,
+  chatId: string,
+  update: (chat: Chat) => Chat
+): ChatStoreState {
+  const chat = ownEntry(prev.chatsById, chatId);
+  if (!chat) return prev;
+  return { ...prev, chatsById: { ...prev.chatsById, [chatId]: update(chat) } };
+}
+
+function patchHistory(
+  prev: ChatStoreState,
+  chatId: string,
+  update: (messages: Message[]) => Message[]
+): ChatStoreState {
+  const history = ownEntry(prev.historiesByChat, chatId);
+  if (!history) return prev;
+  const messages = update(history.messages);
+  if (messages === history.messages) return prev;
+  return {
+    ...prev,
+    historiesByChat: {
+      ...prev.historiesByChat,
+      [chatId]: { ...history, messages },
+    },
+  };
+}
+
+// Pending and failed copies don't count; the server has never seen them
+function withSeen(prev: ChatStoreState, messages: Message[]): ChatStoreState {
+  let lastSeenByChat = prev.lastSeenByChat;
+  for (const message of messages) {
+    if (!isServerMessage(message)) continue;
+    const lastSeen = ownEntry(lastSeenByChat, message.chatId);
+    if (!lastSeen || lastSeen.createdAt <= message.createdAt) {
+      lastSeenByChat = { ...lastSeenByChat, [message.chatId]: message };
+    }
+  }
+  return lastSeenByChat === prev.lastSeenByChat
+    ? prev
+    : { ...prev, lastSeenByChat };
+}
+
+function withLatestMessage(prev: ChatStoreState, message: Message) {
+  return patchChat(prev, message.chatId, (chat) => ({
+    ...chat,
+    latestMessage: message,
+  }));
+}
+
+// Every change to chats, messages and members goes through these actions,
+// whether it comes from a socket event, a chatApi result or the UI
+export const chatStore = {
+  /**
+   * Replace the chat list, e.g. with the socket's initial data
+   */
+  setChats: (chats: Chat[]) => {
+    setState((prev) => withChats(prev, chats));
+  },
+
+  /**
+   * Bring the chat list up to date with the complete current one, e.g.
+   * after a resync; chats deleted meanwhile are dropped
+   */
+  mergeChats: (chats: Chat[]) => {
+    setState((prev) =>
+      withChats(
+        prev,
+        mergeChats(
+          prev.chatIds.map((chatId) => prev.chatsById[chatId]),
+          chats
+        )
+      )
+    );
+  },
+
+  /**
+   * Add a chat unless it is already listed
+   */
+  addChat: (chat: Chat) => {
+    setState((prev) =>
+      ownEntry(prev.chatsById, chat.id)
+        ? prev
+        : {
+            ...prev,
+            chatIds: [...prev.chatIds, chat.id],
+            chatsById: { ...prev.chatsById, [chat.id]: chat },
+          }
+    );
+  },
+
+  /**
+   * Apply a partial change to a chat, wherever it is shown
+   */
+  updateChat: ({ id, ...changes }: Partial<Chat>) => {
+    if (!id) return;
+    setState((prev) =>
+      patchChat(prev, id, (chat) => ({ ...chat, ...changes }))
+    );
+  },
+
+  /**
+   * Drop a deleted chat and its history, closing it if it is open
+   */
+  removeChat: (chatId: string) => {
+    setState((prev) => {
+      if (!ownEntry(prev.chatsById, chatId)) return prev;
+      const { [chatId]: _chat, ...chatsById } = prev.chatsById;
+      const { [chatId]: _history, ...historiesByChat } = prev.historiesByChat;
+      const { [chatId]: _lastSeen, ...lastSeenByChat } = prev.lastSeenByChat;
+      return {
+        ...prev,
+        chatIds: prev.chatIds.filter((id) => id !== chatId),
+        chatsById,
+        historiesByChat,
+        lastSeenByChat,
+        selectedChatId:
+          prev.selectedChatId === chatId ? null : prev.selectedChatId,
+      };
+    });
+  },
+
+  /**
+   * Open a chat. It gets an empty history until its first page arrives, so
+   * messages sent or received in the meantime are kept.
+   */
+  selectChat: (chatId: string | null) => {
+    setState((prev) => {
+      if (prev.selectedChatId === chatId) return prev;
+      if (!chatId || ownEntry(prev.historiesByChat, chatId)) {
+        return { ...prev, selectedChatId: chatId };
+      }
+      return {
+        ...prev,
+        selectedChatId: chatId,
+        historiesByChat: {
+          ...prev.historiesByChat,
+          [chatId]: {
+            messages: [],
+            hasMore: false,
+            hasFirstPage: false,
+            isLoading: false,
+          },
+        },
+      };
+    });
+  },
+
+  /**
+   * Fold a page of history into a chat's cache. Older pages go in front of
+   * what is held; the latest page is merged into it.
+   */
+  receiveHistoryPage: (
+    chatId: string,
+    messages: Message[],
+    { hasMore, isOlder }: { hasMore: boolean; isOlder: boolean }
+  ) => {
+    setState((prev) => {
+      const held = ownEntry(prev.historiesByChat, chatId);
+      const heldMessages = held?.messages ?? [];
+      return {
+        ...withSeen(prev, messages),
+        historiesByChat: {
+          ...prev.historiesByChat,
+          [chatId]: {
+            messages: isOlder
+              ? mergeMessages(messages, heldMessages)
+              : mergeMessages(heldMessages, messages),
+            // A fresh latest page doesn't undo having reached the start.
+            // Messages received before the first page don't count: the
+            // placeholder's hasMore says nothing about the chat.
+            hasMore:
+              isOlder || !held?.hasFirstPage
+                ? hasMore
+                : held.hasMore && hasMore,
+            hasFirstPage: true,
+            isLoading: held?.isLoading ?? false,
+          },
+        },
+      };
+    });
+  },
+
+  /**
+   * Mark a chat's history as fetching a page, or done fetching
+   */
+  setHistoryLoading: (chatId: string, isLoading: boolean) => {
+    setState((prev) => {
+      const history = ownEntry(prev.historiesByChat, chatId);
+      if (!history || history.isLoading === isLoading) return prev;
+      return {
+        ...prev,
+        historiesByChat: {
+          ...prev.historiesByChat,
+          [chatId]: { ...history, isLoading },
+        },
+      };
+    });
+  },
+
+  /**
+   * Add a new message (or the canonical copy of an optimistic one) and make
+   * it its chat's latest message
+   */
+  addMessage: (message: Message) => {
+    setState((prev) =>
+      withLatestMessage(
+        patchHistory(withSeen(prev, [message]), message.chatId, (messages) =>
+          upsertMessage(messages, message)
+        ),
+        message
+      )
+    );
+  },
+
+  /**
+   * Merge messages that arrived while disconnected into every cached chat
+   */
+  mergeMessages: (incoming: Message[]) => {
+    setState((prev) => {
+      const latestByChat: Record<string, Message> = {};
+      for (const message of incoming) {
+        const latest = latestByChat[message.chatId];
+        if (!latest || latest.createdAt <= message.createdAt) {
+          latestByChat[message.chatId] = message;
+        }
+      }
+
+      let next = withSeen(prev, incoming);
+      for (const [chatId, latest] of Object.entries(latestByChat)) {
+        next = patchHistory(next, chatId, (messages) =>
+          mergeMessages(
+            messages,
+            incoming.filter((message) => message.chatId === chatId)
+          )
+        );
+        next = withLatestMessage(next, latest);
+      }
+      return next;
+    });
+  },
+
+  /**
+   * Apply an edit, reaction or regeneration to a message we already hold
+   */
+  updateMessage: (message: Message) => {
+    setState((prev) => {
+      const next = patchHistory(prev, message.chatId, (messages) =>
+        replaceMessage(messages, message)
+      );
+      return ownEntry(next.chatsById, message.chatId)?.latestMessage?.id ===
+        message.id
+        ? withLatestMessage(next, message)
+        : next;
+    });
+  },
+
+  removeMessage: ({ chatId, messageId }: MessageDeleted) => {
+    setState((prev) => {
+      const next = patchHistory(prev, chatId, (messages) =>
+        messages.some((message) => message.id === messageId)
+          ? messages.filter((message) => message.id !== messageId)
+          : messages
+      );
+      return ownEntry(next.chatsById, chatId)?.latestMessage?.id === messageId
+        ? patchChat(next, chatId, (chat) => ({
+            ...chat,
+            latestMessage: undefined,
+          }))
+        : next;
+    });
+  },
+
+  setMessageStatus: (
+    chatId: string,
+    messageId: string,
+    status: Message["status"]
+  ) => {
+    setState((prev) =>
+      patchHistory(prev, chatId, (messages) =>
+        messages.map((message) =>
+          message.id === messageId ? { ...message, status } : message
+        )
+      )
+    );
+  },
+
+  setMembers: (members: Member[]) => {
+    setState((prev) => ({
+      ...prev,
+      memberIds: members.map((member) => member.id),
+      membersById: Object.fromEntries(
+        members.map((member) => [member.id, member])
+      ),
+    }));
+  },
+
+  upsertMember: (member: Member) => {
+    setState((prev) => ({
+      ...prev,
+      memberIds: ownEntry(prev.membersById, member.id)
+        ? prev.memberIds
+        : [...prev.memberIds, member.id],
+      membersById: { ...prev.membersById, [member.id]: member },
+    }));
+  },
+
+  removeMember: (memberId: string) => {
+    setState((prev) => {
+      if (!ownEntry(prev.membersById, memberId)) return prev;
+      const { [memberId]: _removed, ...membersById } = prev.membersById;
+      return {
+        ...prev,
+        memberIds: prev.memberIds.filter((id) => id !== memberId),
+        membersById,
+      };
+    });
+  },
+
+  /**
+   * Forget everything, e.g. when the user signs out
+   */
+  reset: () => {
+    setState(() => initialState);
+  },
+};
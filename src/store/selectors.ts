@@ -0,0 +1,54 @@
+// src/store/selectors.ts
+import { Chat, Member } from "@/types";
+import { ChatHistory, ChatStoreState, ownEntry } from "./chatStore";
+
+// useSyncExternalStore re-renders whenever a selector returns a new value,
+// so derived lists are cached against the state slices they are built from
+function memoizeSlices<A, B, R>(
+  slices: (state: ChatStoreState) => [A, B],
+  derive: (a: A, b: B) => R
+): (state: ChatStoreState) => R {
+  let last: { a: A; b: B; result: R } | null = null;
+  return (state) => {
+    const [a, b] = slices(state);
+    if (!last || last.a !== a || last.b !== b) {
+      last = { a, b, result: derive(a, b) };
+    }
+    return last.result;
+  };
+}
+
+const EMPTY_HISTORY: ChatHistory = {
+  messages: [],
+  hasMore: false,
+  hasFirstPage: false,
+  isLoading: false,
+};
+
+export const selectChats = memoizeSlices(
+  (state) => [state.chatIds, state.chatsById],
+  (chatIds, chatsById): Chat[] => chatIds.map((chatId) => chatsById[chatId])
+);
+
+export const selectSelectedChat = (state: ChatStoreState): Chat | null =>
+  state.selectedChatId
+    ? (ownEntry(state.chatsById, state.selectedChatId) ?? null)
+    : null;
+
+export const selectIsLoadingChats = (state: ChatStoreState): boolean =>
+  state.isLoadingChats;
+
+export const selectChatHistory =
+  (chatId: string) =>
+  (state: ChatStoreState): ChatHistory =>
+    ownEntry(state.historiesByChat, chatId) ?? EMPTY_HISTORY;
+
+export const selectMembers = memoizeSlices(
+  (state) => [state.memberIds, state.membersById],
+  (memberIds, membersById): Member[] =>
+    memberIds.map((memberId) => membersById[memberId])
+);
+
+export const selectMembersById = (
+  state: ChatStoreState
+): Record<string, Member> => state.membersById;
@@ -10,19 +10,72 @@ export interface Chat {
   updatedAt: string;
   memberIds: string[];
   latestMessage?: Message;
+  isPinned?: boolean;
+  isArchived?: boolean;
+  // Concluded chats keep their conclusion and accept no new messages
+  isConcluded?: boolean;
 }
 
 export type MessageType = "MEMBER" | "SYSTEM";
 
+export type MessageStatus = "pending" | "sent" | "failed";
+
+export interface TextPart {
+  type: "text";
+  text: string;
+}
+
+export interface ImagePart {
+  type: "image";
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface FilePart {
+  type: "file";
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export type MessagePart = TextPart | ImagePart | FilePart;
+
+export interface MessageContent {
+  // Plain text of the message; for multi-part messages, the text parts
+  // joined, so previews and search keep working
+  text: string;
+  // Absent on text-only messages
+  parts?: MessagePart[];
+}
+
 export interface Message {
   id: string;
-  content: {
-    text: string;
-  };
+  content: MessageContent;
   senderId: string | null;
   chatId: string;
   createdAt: string;
   type: MessageType;
+  // Client-generated id echoed back by the server for messages sent from here
+  clientId?: string;
+  // Local delivery state; absent on messages received from the server
+  status?: MessageStatus;
+  // Ids of members addressed with @mentions in the text
+  mentions?: string[];
+  // Only the mentioned agents should reply to this message
+  onlyMentionedReply?: boolean;
+  // Set once the sender has edited the text
+  editedAt?: string;
+  // Emoji → ids of the members who reacted with it
+  reactions?: Record<string, string[]>;
+  // Every answer generated for a regenerated agent message; content holds
+  // the selected one
+  alternatives?: MessageAlternative[];
+  selectedAlternative?: number;
+  // Message this one replies to, if it was sent as a threaded reply
+  replyToId?: string | null;
 }
 
 export type MemberType = "USER" | "PROGRAM";
@@ -33,7 +86,260 @@ export interface Member {
   email: string | null;
   systemMessage: string | null;
   description: string | null;
+  // Optional picture; initials on the member's color are shown otherwise
+  avatarUrl?: string | null;
   createdAt: Date;
   updatedAt: Date;
   type: MemberType;
 }
+
+export type ChatSearchField = "name" | "topic" | "context";
+
+// Search hits for one chat: which chat fields matched and which messages
+export interface ChatSearchResult {
+  chat: Chat;
+  matchedFields: ChatSearchField[];
+  messages: Message[];
+}
+
+// Lossless export of a chat, also accepted by the transcript importer
+export interface ChatTranscript {
+  format: "socmind.chat";
+  version: 1;
+  exportedAt: string;
+  chat: Chat;
+  members: Member[];
+  messages: Message[];
+}
+
+// A saved revision of a member's system message
+export interface MemberVersion {
+  id: string;
+  memberId: string;
+  systemMessage: string | null;
+  author: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export type SendMessageAck =
+  | { ok: true; message: Message }
+  | { ok: false; error: string };
+
+// One page of a chat's history, oldest message first
+export interface ChatHistoryPage {
+  chatId: string;
+  messages: Message[];
+  hasMore: boolean;
+}
+
+// Reply to a "sync" request: the current chat list plus every message
+// posted after the last one the client reported seeing in each chat
+export interface SyncResponse {
+  chats: Chat[];
+  messages: Message[];
+}
+
+// Partial-message events emitted while an agent is still generating a reply
+export interface MessageStreamStart {
+  messageId: string;
+  chatId: string;
+  senderId: string | null;
+  createdAt?: string;
+}
+
+export interface MessageStreamChunk {
+  messageId: string;
+  chatId: string;
+  delta: string;
+}
+
+export interface MessageStreamEnd {
+  messageId: string;
+  chatId: string;
+}
+
+export interface StreamingMessage extends Message {
+  isStreaming: boolean;
+}
+
+// Emitted while a member is preparing a reply; "idle" when it stops
+export type MemberActivityKind = "typing" | "thinking";
+
+export interface MemberActivityEvent {
+  chatId: string;
+  memberId: string;
+  activity: MemberActivityKind | "idle";
+  startedAt?: string;
+}
+
+export interface MemberActivity {
+  chatId: string;
+  memberId: string;
+  activity: MemberActivityKind;
+  startedAt: string;
+  // Last time the server reported the activity, for expiry
+  updatedAt: number;
+}
+
+export type SpeakerSelection = "round-robin" | "random" | "manual";
+
+// How agents take turns in a chat; a null limit means unlimited
+export interface OrchestrationSettings {
+  speakerSelection: SpeakerSelection;
+  // Member who speaks next when selection is manual
+  nextSpeakerId: string | null;
+  maxTurnsPerRound: number | null;
+  maxTokensPerRound: number | null;
+}
+
+// A round starts with each user message; agents stop for the round once a
+// limit is reached and stay silent while the chat is paused
+export interface OrchestrationState extends OrchestrationSettings {
+  chatId: string;
+  isPaused: boolean;
+  turnsThisRound: number;
+  tokensThisRound: number;
+}
+
+export type OrchestrationAck =
+  | { ok: true; state: OrchestrationState }
+  | { ok: false; error: string };
+
+// One generated answer of a regenerated agent message
+export interface MessageAlternative {
+  text: string;
+  createdAt: string;
+}
+
+export type MessageActionAck =
+  | { ok: true; message: Message }
+  | { ok: false; error: string };
+
+export type DeleteMessageAck = { ok: true } | { ok: false; error: string };
+
+export interface MessageDeleted {
+  chatId: string;
+  messageId: string;
+}
+
+// Every reply to one message, oldest first
+export interface ThreadReplies {
+  chatId: string;
+  messageId: string;
+  replies: Message[];
+}
+
+// Sent on every connection; a server on another version is reported to the
+// user rather than trusted
+export interface HandshakeRequest {
+  protocolVersion: number;
+}
+
+export interface HandshakeAck {
+  protocolVersion: number;
+}
+
+export interface SyncRequest {
+  // Chat id → id of the latest message held for it
+  lastSeen: Record<string, string>;
+}
+
+export interface ChatHistoryRequest {
+  chatId: string;
+  before?: string;
+  through?: string;
+  limit: number;
+}
+
+export interface SendMessageRequest {
+  chatId: string;
+  clientId: string;
+  content: string;
+  parts: MessagePart[] | null;
+  mentions: string[];
+  onlyMentionedReply: boolean;
+  replyToId: string | null;
+}
+
+export interface MessageRef {
+  chatId: string;
+  messageId: string;
+}
+
+export interface ChatRef {
+  chatId: string;
+}
+
+// Events the server pushes to the client
+export interface ServerToClientEvents {
+  initialData: (chats: Chat[]) => void;
+  newChat: (chat: Chat) => void;
+  chatUpdated: (chat: Partial<Chat> & { id: string }) => void;
+  chatDeleted: (deleted: ChatRef) => void;
+  newMessage: (message: Message) => void;
+  messageUpdated: (message: Message) => void;
+  messageDeleted: (deleted: MessageDeleted) => void;
+  messageStart: (start: MessageStreamStart) => void;
+  messageChunk: (chunk: MessageStreamChunk) => void;
+  messageEnd: (end: MessageStreamEnd) => void;
+  memberActivity: (activity: MemberActivityEvent) => void;
+  orchestrationUpdated: (state: OrchestrationState) => void;
+}
+
+// Requests the client sends; each is answered through its acknowledgement
+export interface ClientToServerEvents {
+  handshake: (
+    request: HandshakeRequest,
+    ack: (response: HandshakeAck) => void
+  ) => void;
+  sync: (request: SyncRequest, ack: (response: SyncResponse) => void) => void;
+  chatHistory: (
+    request: ChatHistoryRequest,
+    ack: (response: ChatHistoryPage) => void
+  ) => void;
+  threadReplies: (
+    request: MessageRef,
+    ack: (response: ThreadReplies) => void
+  ) => void;
+  sendMessage: (
+    request: SendMessageRequest,
+    ack: (response: SendMessageAck) => void
+  ) => void;
+  editMessage: (
+    request: MessageRef & { content: string },
+    ack: (response: MessageActionAck) => void
+  ) => void;
+  regenerateMessage: (
+    request: MessageRef,
+    ack: (response: MessageActionAck) => void
+  ) => void;
+  selectAlternative: (
+    request: MessageRef & { index: number },
+    ack: (response: MessageActionAck) => void
+  ) => void;
+  toggleReaction: (
+    request: MessageRef & { emoji: string },
+    ack: (response: MessageActionAck) => void
+  ) => void;
+  deleteMessage: (
+    request: MessageRef,
+    ack: (response: DeleteMessageAck) => void
+  ) => void;
+  getOrchestration: (
+    request: ChatRef,
+    ack: (response: OrchestrationAck) => void
+  ) => void;
+  pauseChat: (
+    request: ChatRef,
+    ack: (response: OrchestrationAck) => void
+  ) => void;
+  resumeChat: (
+    request: ChatRef,
+    ack: (response: OrchestrationAck) => void
+  ) => void;
+  updateOrchestration: (
+    request: ChatRef & { settings: Partial<OrchestrationSettings> },
+    ack: (response: OrchestrationAck) => void
+  ) => void;
+}
@@ -13,6 +13,15 @@ const config: Config = {
         "gradient-conic":
           "conic-gradient(from 180deg at 50% 50%, var(--tw-gradient-stops))",
       },
+      keyframes: {
+        flash: {
+          "0%, 40%": { backgroundColor: "rgb(254 240 138)" },
+          "100%": { backgroundColor: "transparent" },
+        },
+      },
+      animation: {
+        flash: "flash 2s ease-out",
+      },
     },
   },
   plugins: [require('@tailwindcss/typography')],